@@ -0,0 +1,194 @@
+import { TestStepInfo } from "@playwright/test";
+
+import { FunctionParameters } from "./parameters";
+import { getSecretMask, isSecretKey, isSecretPath, Secret } from "./secrets";
+import {
+	findSerializer,
+	isObjectWithoutToString,
+	isPlainObject,
+	serializeValue,
+	truncate,
+	ValueSerializer,
+} from "./serializers";
+
+/**
+ * The name of the attachment created by the `attachValues` step option.
+ */
+export const STEP_VALUES_ATTACHMENT = "step-values";
+
+/**
+ * The default maximum length of a string in the attachment.
+ */
+export const DEFAULT_ATTACHMENT_MAX_LENGTH = 1_000;
+
+/**
+ * The default maximum size in characters of the JSON of a single argument or the return value.
+ */
+export const DEFAULT_ATTACHMENT_MAX_SIZE = 10_000;
+
+/**
+ * Which values the `attachValues` step option attaches, and how large they may get.
+ */
+export interface StepValuesAttachmentOptions {
+	/**
+	 * Whether to attach the arguments of the method. Defaults to `true`.
+	 */
+	arguments?: boolean;
+	/**
+	 * Whether to attach the resolved return value of the method. Defaults to `true`.
+	 */
+	result?: boolean;
+	/**
+	 * Strings longer than this are truncated. Defaults to 1000, `0` disables truncation.
+	 */
+	maxLength?: number;
+	/**
+	 * An argument or return value whose JSON is longer than this many characters is replaced by a note.
+	 * Defaults to 10000, `0` disables the limit.
+	 */
+	maxSize?: number;
+}
+
+/**
+ * What a step attaches and how its values are rendered.
+ */
+export interface AttachStepValuesOptions {
+	attachValues: true | StepValuesAttachmentOptions;
+	secrets?: ReadonlyArray<string>;
+	serializers?: ReadonlyArray<ValueSerializer>;
+}
+
+/**
+ * Attaches the arguments and the return value of a step as JSON.
+ *
+ * Arguments are keyed by their parameter name, or by their index (`[[1]]`) if the parameter has no name. Secret
+ * values are masked like in step titles, values with a serializer (Pages, Locators, Dates and registered types) are
+ * rendered with it, and binary data is replaced by its size.
+ *
+ * @param outcome The return value of the step, or `undefined` if the step failed.
+ */
+export async function attachStepValues(
+	stepInfo: TestStepInfo,
+	parameters: FunctionParameters,
+	args: ReadonlyArray<unknown>,
+	outcome: { result: unknown } | undefined,
+	options: AttachStepValuesOptions
+): Promise<void> {
+	const attachOptions = options.attachValues === true ? {} : options.attachValues;
+	const values: Record<string, unknown> = {};
+
+	if (attachOptions.arguments ?? true) {
+		values.arguments = toNamedArguments(parameters, args, options, attachOptions);
+	}
+	if (outcome && (attachOptions.result ?? true)) {
+		values.result = toAttachmentValue(outcome.result, [], options, attachOptions);
+	}
+
+	await stepInfo.attach(STEP_VALUES_ATTACHMENT, {
+		body: JSON.stringify(values, null, 2),
+		contentType: "application/json",
+	});
+}
+
+/**
+ * Converts the arguments of a step to JSON data keyed by parameter name, with secrets masked.
+ *
+ * Arguments of parameters without a name, e.g. destructured ones, are keyed by their index (`[[1]]`).
+ */
+export function toNamedArguments(
+	parameters: FunctionParameters,
+	args: ReadonlyArray<unknown>,
+	options: Pick<AttachStepValuesOptions, "secrets" | "serializers">,
+	attachOptions: StepValuesAttachmentOptions = {}
+): Record<string, unknown> {
+	const render = (value: unknown, paths: string[]) => toAttachmentValue(value, paths, options, attachOptions);
+	const namedArguments: Record<string, unknown> = {};
+	for (let index = 0; index < args.length; index++) {
+		const indexPath = `[[${index}]]`;
+		const restBinding = parameters.bindings.find(
+			binding => binding.rest?.kind === "arguments" && binding.rest.from === index
+		);
+		if (restBinding) {
+			namedArguments[restBinding.name] = render(args.slice(index), [restBinding.name]);
+			break;
+		}
+		const name = parameters.names[index];
+		if (name && isSecretKey(name)) {
+			namedArguments[name] = getSecretMask();
+		} else {
+			namedArguments[name ?? indexPath] = render(args[index], name ? [name, indexPath] : [indexPath]);
+		}
+	}
+	return namedArguments;
+}
+
+/**
+ * Converts a value to JSON data, applying the size limit to the whole value.
+ */
+function toAttachmentValue(
+	value: unknown,
+	paths: string[],
+	options: Pick<AttachStepValuesOptions, "secrets" | "serializers">,
+	attachOptions: StepValuesAttachmentOptions
+): unknown {
+	const maxSize = attachOptions.maxSize ?? DEFAULT_ATTACHMENT_MAX_SIZE;
+	const data = toJsonData(value, paths, options, attachOptions.maxLength ?? DEFAULT_ATTACHMENT_MAX_LENGTH);
+	const size = JSON.stringify(data)?.length ?? 0;
+	return maxSize > 0 && size > maxSize ? `[${size} characters, larger than the limit of ${maxSize}]` : data;
+}
+
+/**
+ * Converts a value to data that can be stored as JSON, following the same rules as placeholder values.
+ *
+ * @param paths The placeholder paths of the value, e.g. `user.password` and `[[0]].password`, to match secret paths.
+ */
+function toJsonData(
+	value: unknown,
+	paths: string[],
+	options: Pick<AttachStepValuesOptions, "secrets" | "serializers">,
+	maxLength: number,
+	seen = new WeakSet<object>()
+): unknown {
+	const secrets = options.secrets ?? [];
+	if (value instanceof Secret || paths.some(path => isSecretPath(path, secrets))) {
+		return getSecretMask();
+	}
+	if (typeof value === "string") return truncate(value, maxLength);
+	if (typeof value === "bigint") return value.toString();
+	if (typeof value === "function") return `[Function ${value.name || "anonymous"}]`;
+	if (typeof value === "symbol") return value.toString();
+	if (value === null || typeof value !== "object") return value;
+
+	if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+		return `[binary, ${value.byteLength} bytes]`;
+	}
+	if (seen.has(value)) return "[Circular]";
+	seen.add(value);
+	try {
+		const convert = (item: unknown, key: string | number) => {
+			const suffix = typeof key === "number" ? `[${key}]` : `.${key}`;
+			return toJsonData(
+				item,
+				paths.map(path => path + suffix),
+				options,
+				maxLength,
+				seen
+			);
+		};
+		if (Array.isArray(value)) {
+			return value.map((item, index) => convert(item, index));
+		}
+		if (findSerializer(value, options.serializers)) {
+			return serializeValue(value, { serializers: options.serializers, maxLength });
+		}
+		if (!isPlainObject(value) && !isObjectWithoutToString(value)) {
+			return truncate(String(value), maxLength);
+		}
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, isSecretKey(key) ? getSecretMask() : convert(item, key)])
+		);
+	} finally {
+		// Only the objects the value is nested in are circular, references repeated elsewhere are converted again
+		seen.delete(value);
+	}
+}
@@ -0,0 +1,230 @@
+import { readFileSync } from "node:fs";
+import { findSourceMap, SourceMap, SourceMapPayload } from "node:module";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { getStepConfig } from "./config";
+
+/**
+ * A source location, as passed to Playwright's `test.step`.
+ */
+export interface SourceLocation {
+	file: string;
+	line: number;
+	column: number;
+}
+
+/**
+ * Turns a path of a custom scheme in a stack frame or source map into a file path, e.g.
+ * `app://packages/pages/login.ts` into `/repo/packages/pages/login.ts`. Returns `undefined` for paths it does not
+ * handle, so the next resolver is tried.
+ */
+export type StackPathResolver = (path: string) => string | undefined;
+
+/**
+ * The path schemes of bundlers, removed from paths in stack frames and source maps.
+ */
+const bundlerSchemePattern = /^(webpack|vite|rollup):\/\//;
+
+/**
+ * Frames of these paths are never the call site of a step.
+ */
+const internalFragments = [
+	"node:internal",
+	"/node_modules/",
+	"/node_modules/playwright-step-decorator/",
+	"/packages/playwright-step-decorator/",
+	"/playwright-step-decorator.ts",
+	"/playwright-step-decorator.js",
+	"/playwright-step-decorator.cjs",
+	"/playwright-step-decorator.mjs",
+	"/src/playwright-step-decorator",
+	"/dist/playwright-step-decorator",
+];
+
+type PrepareStackTrace = (error: Error, structuredStack: NodeJS.CallSite[]) => unknown;
+
+interface LoadedSourceMap {
+	sourceMap: SourceMap;
+	directory: string;
+}
+
+const sourceMapCache = new Map<string, LoadedSourceMap | undefined>();
+
+/**
+ * Captures the location the given function was called from, for accurate locations in reports and the trace viewer.
+ *
+ * The location is read from the structured V8 call sites below `caller`. Positions in bundled or compiled code are
+ * mapped to the original source with the source map of the file, or with the source map support installed in the
+ * process (e.g. Playwright's for transpiled tests). Frames of Node.js internals, dependencies, this package and the
+ * configured `ignoredStackFragments` are skipped.
+ *
+ * @param caller The function whose caller is wanted. Its own frame and the frames above it are left out.
+ * @returns The location, or `undefined` if no frame qualifies.
+ */
+export function captureCallSiteLocation(caller: Function): SourceLocation | undefined {
+	const config = getStepConfig();
+	const ignoredFragments = [...(config.ignoredStackFragments ?? []), ...internalFragments];
+
+	for (const resolveFrame of captureFrames(caller, config.sourceMaps !== false)) {
+		const location = resolveFrame();
+		if (!location) continue;
+		const file = normalizeStackPath(location.file);
+		if (!ignoredFragments.some(fragment => file.includes(fragment))) {
+			return { ...location, file };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Turns a path from a stack frame or source map into a plain file path, using the configured
+ * `stackPathResolvers` first and removing `file://` and bundler schemes.
+ */
+export function normalizeStackPath(value: string): string {
+	let result = value.trim();
+	for (const resolver of getStepConfig().stackPathResolvers ?? []) {
+		const resolved = resolver(result);
+		if (resolved !== undefined) {
+			result = resolved;
+			break;
+		}
+	}
+	result = result.replace(/^file:\/\//, "");
+	result = result.replace(bundlerSchemePattern, "");
+	result = result.replace(/\\/g, "/");
+	return result;
+}
+
+/**
+ * Returns the frames below `caller` as functions resolving each frame lazily, as mapping a frame may be costly and
+ * usually only the first few frames are needed.
+ *
+ * @param sourceMaps Whether to map frames with the source map of their file.
+ */
+function captureFrames(caller: Function, sourceMaps: boolean): Array<() => SourceLocation | undefined> {
+	// Read and written through an optional type, as `Error.prepareStackTrace` is not set by default
+	const errorConstructor: { prepareStackTrace?: PrepareStackTrace } = Error;
+	const previousPrepare = errorConstructor.prepareStackTrace;
+	let callSites: NodeJS.CallSite[] = [];
+	const holder: { stack?: unknown } = {};
+	try {
+		errorConstructor.prepareStackTrace = (_error, structuredStack) => {
+			callSites = structuredStack;
+			return "";
+		};
+		Error.captureStackTrace(holder, caller);
+		void holder.stack;
+	} finally {
+		errorConstructor.prepareStackTrace = previousPrepare;
+	}
+
+	return callSites.map(callSite => () => {
+		const file = callSite.getFileName();
+		const line = callSite.getLineNumber();
+		const column = callSite.getColumnNumber();
+		if (!file || line === null || column === null) return undefined;
+		const installed = previousPrepare ? mapWithInstalledSupport(previousPrepare, callSite) : undefined;
+		const own = sourceMaps ? applySourceMap({ file, line, column }) : undefined;
+		// The installed support may map code it transpiled itself, which the source map of the file does not describe.
+		// When both agree, the source map of the file is preferred, as it keeps custom schemes in source paths intact.
+		if (own && (!installed || (installed.line === own.line && installed.column === own.column))) {
+			return own;
+		}
+		return installed ?? { file, line, column };
+	});
+}
+
+/**
+ * Maps a call site with the source map support installed in `Error.prepareStackTrace`, e.g. by Playwright or
+ * ts-node. Such support only exposes the mapped position in the frame text it formats, so that text is read.
+ */
+function mapWithInstalledSupport(
+	prepareStackTrace: PrepareStackTrace,
+	callSite: NodeJS.CallSite
+): SourceLocation | undefined {
+	let text: unknown;
+	try {
+		text = prepareStackTrace(new Error(), [callSite]);
+	} catch {
+		return undefined;
+	}
+	if (typeof text !== "string") return undefined;
+
+	// The frame is formatted as `at name (file:line:column)` or `at file:line:column`
+	const frameText = (text.split("\n").pop() ?? "").trim();
+	const match = /\((.+):(\d+):(\d+)\)$/.exec(frameText) ?? /at (.+):(\d+):(\d+)$/.exec(frameText);
+	if (!match) return undefined;
+	const [, file, line, column] = match;
+	return { file, line: Number(line), column: Number(column) };
+}
+
+/**
+ * Maps a location in generated code to the original source with the source map of the file, if it has one.
+ * Returns `undefined` if the file has no source map or the map does not cover the location.
+ */
+function applySourceMap(location: SourceLocation): SourceLocation | undefined {
+	const loaded = loadSourceMap(location.file);
+	if (!loaded) return undefined;
+
+	const entry = loaded.sourceMap.findEntry(location.line - 1, location.column - 1);
+	if (!("originalSource" in entry)) return undefined;
+	return {
+		file: resolveOriginalSource(loaded.directory, loaded.sourceMap.payload.sourceRoot, entry.originalSource),
+		line: entry.originalLine + 1,
+		column: entry.originalColumn + 1,
+	};
+}
+
+/**
+ * Loads the source map of a generated file: from Node.js when it runs with `--enable-source-maps`, otherwise from the
+ * `sourceMappingURL` comment of the file, either inline or as a separate file. Results are cached per file.
+ *
+ * @returns The source map and the directory its relative source paths start from.
+ */
+function loadSourceMap(file: string): LoadedSourceMap | undefined {
+	if (sourceMapCache.has(file)) return sourceMapCache.get(file);
+
+	let loaded: LoadedSourceMap | undefined;
+	try {
+		const nodeSourceMap = findSourceMap(file);
+		loaded = nodeSourceMap ? { sourceMap: nodeSourceMap, directory: dirname(toFilePath(file)) } : readSourceMap(file);
+	} catch {
+		loaded = undefined;
+	}
+	sourceMapCache.set(file, loaded);
+	return loaded;
+}
+
+function readSourceMap(file: string): LoadedSourceMap | undefined {
+	const filePath = toFilePath(file);
+	if (!isAbsolute(filePath) || !/\.[cm]?js$/.test(filePath)) return undefined;
+
+	const source = readFileSync(filePath, "utf8");
+	const url = /\/\/[#@] sourceMappingURL=(\S+)\s*$/.exec(source)?.[1];
+	if (!url) return undefined;
+
+	const inline = /^data:application\/json[^,]*;base64,(.*)$/.exec(url);
+	if (inline) {
+		const payload = JSON.parse(Buffer.from(inline[1], "base64").toString("utf8")) as SourceMapPayload;
+		return { sourceMap: new SourceMap(payload), directory: dirname(filePath) };
+	}
+	const mapFile = resolve(dirname(filePath), decodeURIComponent(url));
+	const payload = JSON.parse(readFileSync(mapFile, "utf8")) as SourceMapPayload;
+	return { sourceMap: new SourceMap(payload), directory: dirname(mapFile) };
+}
+
+/**
+ * Resolves a source path of a source map. Paths with a custom or bundler scheme are kept for `normalizeStackPath`.
+ */
+function resolveOriginalSource(directory: string, sourceRoot: string | undefined, originalSource: string): string {
+	if (/^[a-z][\w+.-]*:\/\//i.test(originalSource) && !originalSource.startsWith("file://")) {
+		return originalSource;
+	}
+	const source = toFilePath(originalSource);
+	return isAbsolute(source) ? source : resolve(directory, sourceRoot ?? "", source);
+}
+
+function toFilePath(path: string): string {
+	return path.startsWith("file://") ? fileURLToPath(path) : path;
+}
@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+/**
+ * The `playwright-step-decorator` command, e.g. `npx playwright-step-decorator lint src/`.
+ *
+ * The scanner is loaded on demand, as it needs the optional `typescript` peer dependency.
+ */
+import("./step-catalog").then(
+	({ runCatalogCommand }) => {
+		process.exitCode = runCatalogCommand(process.argv.slice(2), {
+			stdout: text => process.stdout.write(text),
+			stderr: text => process.stderr.write(text),
+		});
+	},
+	(error: unknown) => {
+		const missingTypeScript = error instanceof Error && error.message.includes("'typescript'");
+		process.stderr.write(
+			missingTypeScript
+				? "playwright-step-decorator needs the 'typescript' package, install it with 'npm install -D typescript'.\n"
+				: `${String(error)}\n`
+		);
+		process.exitCode = 2;
+	}
+);
@@ -0,0 +1,146 @@
+import type { Fixtures } from "@playwright/test";
+
+import type { StackPathResolver } from "./call-site";
+import type { PlaceholderErrorMode } from "./placeholders";
+import type { StepOptions } from "./playwright-step-decorator";
+
+/**
+ * The title template of steps without a description.
+ */
+export const DEFAULT_TITLE_TEMPLATE = "{{$class}}.{{$method}}";
+
+/**
+ * The fragment identifying stack frames of this package, which are removed from errors thrown inside steps.
+ */
+export const DEFAULT_STACK_FILTER_FRAGMENTS: ReadonlyArray<string> = ["playwright-step-decorator"];
+
+/**
+ * Global configuration of the step decorator, set with `configureSteps`.
+ */
+export interface StepConfig {
+	/**
+	 * The title of steps without a description, supporting the same placeholders as descriptions.
+	 * Defaults to `{{$class}}.{{$method}}`.
+	 */
+	titleTemplate?: string;
+	/**
+	 * Text prepended to the title of every step.
+	 */
+	titlePrefix?: string;
+	/**
+	 * Extra file path fragments to skip when capturing the call site location of a step, e.g. of shared helper
+	 * libraries, so the location points to the test calling them.
+	 */
+	ignoredStackFragments?: string[];
+	/**
+	 * Resolvers for custom path schemes in stack frames and source maps, tried in order before the built-in handling
+	 * of `file://`, `webpack://`, `vite://` and `rollup://` paths.
+	 */
+	stackPathResolvers?: StackPathResolver[];
+	/**
+	 * Whether the call site location of a step is mapped to the original source with the source map of the file it is
+	 * in, e.g. for bundled tests or page objects published as compiled JavaScript. Defaults to `true`.
+	 */
+	sourceMaps?: boolean;
+	/**
+	 * Stack frames containing one of these fragments are removed from errors thrown inside steps.
+	 * Defaults to `["playwright-step-decorator"]`; an empty array keeps every frame.
+	 */
+	stackFilterFragments?: string[];
+	/**
+	 * What happens when a placeholder cannot be resolved: `"throw"` (default) throws an error, `"warn"` logs a warning
+	 * and keeps the placeholder as written, and `"missing"` renders `<missing>` in its place.
+	 */
+	placeholderErrors?: PlaceholderErrorMode;
+	/**
+	 * Whether errors thrown inside steps get a `stepContext` property and a summary line with the breadcrumb of the
+	 * steps leading to them. Defaults to `true`.
+	 */
+	enrichErrors?: boolean;
+	/**
+	 * Whether decorated steps record their class, method, title template and masked arguments in a hidden attachment,
+	 * read by the step tree reporter. Defaults to `false`; turn it on when using the reporter.
+	 */
+	recordStepMetadata?: boolean;
+	/**
+	 * Default options of every step. Options passed to `@step`, `withStep` or `createStepDecorator` take precedence.
+	 */
+	defaults?: StepOptions;
+}
+
+let stepConfig: StepConfig = {};
+
+/**
+ * Configures the step decorator globally. The given settings are merged into the current configuration.
+ *
+ * @param config The settings to change.
+ *
+ * @example
+ * ```typescript
+ * configureSteps({
+ *   titleTemplate: "{{$class}} › {{$method}}",
+ *   placeholderErrors: "warn",
+ *   defaults: { box: true, timeout: 30_000 },
+ * });
+ * ```
+ */
+export function configureSteps(config: StepConfig): void {
+	stepConfig = { ...stepConfig, ...config };
+}
+
+/**
+ * Returns the current global configuration of the step decorator.
+ */
+export function getStepConfig(): Readonly<StepConfig> {
+	return stepConfig;
+}
+
+/**
+ * Restores the default configuration of the step decorator.
+ */
+export function resetStepConfig(): void {
+	stepConfig = {};
+}
+
+/**
+ * The fixtures added by `stepConfigFixtures`.
+ */
+export interface StepConfigFixtures {
+	/**
+	 * The step configuration of the test, e.g. set per project with `use: { stepConfig: { ... } }`.
+	 */
+	stepConfig: StepConfig;
+	/**
+	 * Applies `stepConfig` for the duration of each test.
+	 */
+	_applyStepConfig: void;
+}
+
+/**
+ * Fixtures to set the step configuration per project or per test through Playwright's `use` options.
+ * The configuration is merged over the global one for the duration of each test.
+ *
+ * @example
+ * ```typescript
+ * // fixtures.ts
+ * export const test = base.extend<StepConfigFixtures>(stepConfigFixtures);
+ *
+ * // playwright.config.ts
+ * projects: [{ name: "api", use: { stepConfig: { titlePrefix: "[API] " } } }]
+ * ```
+ */
+export const stepConfigFixtures: Fixtures<StepConfigFixtures> = {
+	stepConfig: [{}, { option: true }],
+	_applyStepConfig: [
+		async ({ stepConfig: testConfig }, use) => {
+			const globalConfig = stepConfig;
+			configureSteps(testConfig);
+			try {
+				await use();
+			} finally {
+				stepConfig = globalConfig;
+			}
+		},
+		{ auto: true },
+	],
+};
@@ -0,0 +1,119 @@
+import { Page, TestStepInfo } from "@playwright/test";
+
+import { isPage } from "./serializers";
+
+/**
+ * The names of the attachments created by the `captureOnFailure` step option.
+ */
+export const FAILURE_EVIDENCE_ATTACHMENTS = {
+	screenshot: "failure-screenshot",
+	url: "failure-url",
+	html: "failure-page",
+} as const;
+
+/**
+ * The instance properties searched for the page when no `pageProperty` is set.
+ */
+export const DEFAULT_PAGE_PROPERTIES: ReadonlyArray<string> = ["page", "_page"];
+
+/**
+ * What the `captureOnFailure` step option attaches to a failing step.
+ */
+export interface FailureEvidenceOptions {
+	/**
+	 * Attach a screenshot of the page. Defaults to `true`.
+	 */
+	screenshot?: boolean;
+	/**
+	 * Take a screenshot of the full scrollable page instead of the viewport. Defaults to `false`.
+	 */
+	fullPage?: boolean;
+	/**
+	 * Attach the URL of the page. Defaults to `true`.
+	 */
+	url?: boolean;
+	/**
+	 * Attach the HTML of the page. Defaults to `false`.
+	 */
+	html?: boolean;
+	/**
+	 * The instance property holding the page. Defaults to `page` or `_page`, falling back to a `getPage()` method.
+	 */
+	pageProperty?: string;
+	/**
+	 * Maximum time in milliseconds to wait for the screenshot. Defaults to 5000.
+	 */
+	timeout?: number;
+}
+
+const capturedErrors = new WeakSet<object>();
+
+/**
+ * Attaches a screenshot, the URL and optionally the HTML of the page of a failing step to that step.
+ *
+ * Evidence is captured once per error, on the innermost failing step with a page, so the steps it propagates
+ * through do not attach it again. Evidence that cannot be captured, e.g. because the page was closed, is left out, so the error of
+ * the step is never replaced by an error of the capture.
+ *
+ * @param instance The instance of the decorated method, searched for the page.
+ * @param error The error thrown by the step.
+ */
+export async function captureFailureEvidence(
+	stepInfo: TestStepInfo,
+	instance: unknown,
+	error: unknown,
+	options: true | FailureEvidenceOptions
+): Promise<void> {
+	const isObjectError = typeof error === "object" && error !== null;
+	if (isObjectError && capturedErrors.has(error)) return;
+	const evidenceOptions = options === true ? {} : options;
+	const page = await findPage(instance, evidenceOptions.pageProperty);
+	if (!page) return;
+	if (isObjectError) capturedErrors.add(error);
+
+	if (evidenceOptions.screenshot ?? true) {
+		await attachEvidence(stepInfo, FAILURE_EVIDENCE_ATTACHMENTS.screenshot, "image/png", () =>
+			page.screenshot({ fullPage: evidenceOptions.fullPage, timeout: evidenceOptions.timeout ?? 5_000 })
+		);
+	}
+	if (evidenceOptions.url ?? true) {
+		await attachEvidence(stepInfo, FAILURE_EVIDENCE_ATTACHMENTS.url, "text/plain", () => page.url());
+	}
+	if (evidenceOptions.html) {
+		await attachEvidence(stepInfo, FAILURE_EVIDENCE_ATTACHMENTS.html, "text/html", () => page.content());
+	}
+}
+
+/**
+ * Finds the page of an instance in the given property, the default properties or its `getPage()` method.
+ */
+async function findPage(instance: unknown, pageProperty: string | undefined): Promise<Page | undefined> {
+	if (typeof instance !== "object" || instance === null) return undefined;
+	const properties = instance as Record<string, unknown>;
+
+	for (const name of pageProperty ? [pageProperty] : DEFAULT_PAGE_PROPERTIES) {
+		if (isPage(properties[name])) return properties[name] as Page;
+	}
+	if (!pageProperty && typeof properties.getPage === "function") {
+		try {
+			const page: unknown = await (properties.getPage as () => unknown).call(instance);
+			if (isPage(page)) return page as Page;
+		} catch {
+			// A failing getPage() means there is no page to capture
+		}
+	}
+	return undefined;
+}
+
+async function attachEvidence(
+	stepInfo: TestStepInfo,
+	name: string,
+	contentType: string,
+	capture: () => string | Buffer | Promise<string | Buffer>
+): Promise<void> {
+	try {
+		await stepInfo.attach(name, { body: await capture(), contentType });
+	} catch {
+		// The page may be closed or crashed by the failure itself
+	}
+}
@@ -1 +1,50 @@
 export * from "./playwright-step-decorator";
+export { DEFAULT_ATTACHMENT_MAX_LENGTH, DEFAULT_ATTACHMENT_MAX_SIZE, STEP_VALUES_ATTACHMENT } from "./attachments";
+export type { StepValuesAttachmentOptions } from "./attachments";
+export type { SourceLocation, StackPathResolver } from "./call-site";
+export {
+	configureSteps,
+	DEFAULT_STACK_FILTER_FRAGMENTS,
+	DEFAULT_TITLE_TEMPLATE,
+	getStepConfig,
+	resetStepConfig,
+	stepConfigFixtures,
+} from "./config";
+export type { StepConfig, StepConfigFixtures } from "./config";
+export { DEFAULT_PAGE_PROPERTIES, FAILURE_EVIDENCE_ATTACHMENTS } from "./failure-evidence";
+export type { FailureEvidenceOptions } from "./failure-evidence";
+export { MISSING_PLACEHOLDER_VALUE } from "./placeholders";
+export type { PlaceholderErrorMode } from "./placeholders";
+export { registerStepPlugin, resetStepPlugins, unregisterStepPlugin } from "./plugins";
+export type { StepEndEvent, StepErrorEvent, StepEvent, StepPlugin } from "./plugins";
+export {
+	buildTraceabilityReport,
+	formatStepTreeMarkdown,
+	formatTraceabilityMarkdown,
+	StepTreeReporter,
+} from "./reporter";
+export type {
+	RequirementCoverage,
+	RequirementStep,
+	RequirementTest,
+	StepTreeNode,
+	StepTreeReport,
+	StepTreeReporterOptions,
+	StepTreeTest,
+	TraceabilityReport,
+} from "./reporter";
+export { REQUIREMENT_ANNOTATION, TAG_ANNOTATION } from "./requirements";
+export { DEFAULT_RETRY_INTERVALS, StepRetryError } from "./retry";
+export type { RetryAttemptsOptions, RetryTimeoutOptions, StepRetryOptions } from "./retry";
+export { attachScenario, formatScenario, getScenarioSteps, SCENARIO_ATTACHMENT } from "./scenario";
+export type { GherkinKeyword, ScenarioStep } from "./scenario";
+export { configureSecretMasking, DEFAULT_SECRET_KEY_PATTERNS, Secret, secret } from "./secrets";
+export type { SecretMaskingOptions } from "./secrets";
+export { DEFAULT_MAX_VALUE_LENGTH, registerSerializer, resetSerializers } from "./serializers";
+export type { ValueSerializer } from "./serializers";
+export { attachSoftStepSummary, getSoftStepFailures, SOFT_STEP_SUMMARY_ATTACHMENT } from "./soft-steps";
+export type { SoftStepFailure } from "./soft-steps";
+export { getStepErrorContext } from "./step-errors";
+export type { StepError, StepErrorContext } from "./step-errors";
+export { readStepMetadata, STEP_METADATA_ATTACHMENT } from "./step-metadata";
+export type { StepMetadata } from "./step-metadata";
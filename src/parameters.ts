@@ -0,0 +1,343 @@
+/**
+ * A name bound by a function parameter, either a plain parameter or a field of a destructured parameter.
+ */
+export interface ParameterBinding {
+	name: string;
+	/** The index of the argument the name is bound to. */
+	index: number;
+	/** The property path inside the argument, e.g. `["user", "name"]` for `({ user: { name } })`. */
+	path: Array<string | number>;
+	/** How a rest element collects its values: remaining arguments, array items or object properties. */
+	rest?: { kind: "arguments" | "array"; from: number } | { kind: "object"; exclude: string[] };
+	/** The default value, if it is a literal (string, number, boolean or `null`). */
+	defaultValue?: { value: unknown };
+}
+
+/**
+ * The parameters of a function, as declared in its source.
+ */
+export interface FunctionParameters {
+	/** The name of each positional parameter, `undefined` for destructured parameters. */
+	names: Array<string | undefined>;
+	bindings: ParameterBinding[];
+}
+
+interface Token {
+	type: "identifier" | "string" | "number" | "template" | "regex" | "punctuator";
+	value: string;
+}
+
+const parameterCache = new WeakMap<Function, FunctionParameters>();
+
+/**
+ * Returns the parameters of a function by parsing its source, cached per function.
+ *
+ * Handles default values, rest parameters, destructured object and array parameters, comments and
+ * transpiled output. Names that cannot be determined (e.g. computed keys) are left out.
+ */
+export function getFunctionParameters(fn: Function): FunctionParameters {
+	let parameters = parameterCache.get(fn);
+	if (!parameters) {
+		parameters = parseFunctionParameters(Function.prototype.toString.call(fn));
+		parameterCache.set(fn, parameters);
+	}
+	return parameters;
+}
+
+/**
+ * Resolves the value bound to a parameter name for the given arguments.
+ */
+export function resolveBinding(binding: ParameterBinding, args: unknown[]): unknown {
+	if (binding.rest?.kind === "arguments") {
+		return args.slice(binding.rest.from);
+	}
+
+	let value: unknown = args[binding.index];
+	for (const key of binding.path) {
+		value = value === undefined || value === null ? undefined : (value as Record<string | number, unknown>)[key];
+	}
+
+	if (binding.rest?.kind === "array") {
+		return Array.isArray(value) ? value.slice(binding.rest.from) : [];
+	}
+	if (binding.rest?.kind === "object") {
+		const exclude = binding.rest.exclude;
+		return Object.fromEntries(Object.entries(Object(value)).filter(([key]) => !exclude.includes(key)));
+	}
+	if (value === undefined && binding.defaultValue) {
+		return binding.defaultValue.value;
+	}
+	return value;
+}
+
+function parseFunctionParameters(source: string): FunctionParameters {
+	const tokens = tokenize(source);
+	const list = findParameterList(tokens);
+	const parameters: FunctionParameters = { names: [], bindings: [] };
+	if (!list) return parameters;
+
+	splitTopLevel(list, ",").forEach((parameter, index) => {
+		if (parameter.length === 0) return;
+		const isRest = parameter[0].value === "...";
+		const [pattern, defaultTokens] = splitDefault(isRest ? parameter.slice(1) : parameter);
+		const defaultValue = parseLiteral(defaultTokens);
+
+		if (pattern.length === 1 && pattern[0].type === "identifier") {
+			parameters.names.push(pattern[0].value);
+			parameters.bindings.push({
+				name: pattern[0].value,
+				index,
+				path: [],
+				rest: isRest ? { kind: "arguments", from: index } : undefined,
+				defaultValue,
+			});
+		} else {
+			parameters.names.push(undefined);
+			collectPatternBindings(pattern, index, [], parameters.bindings);
+		}
+	});
+	return parameters;
+}
+
+/**
+ * Finds the tokens between the parentheses of the parameter list, or the single parameter of an arrow function
+ * without parentheses. A computed method name (`[key](...)`) is skipped.
+ */
+function findParameterList(tokens: Token[]): Token[] | undefined {
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (token.value === "[") {
+			i = findClosingToken(tokens, i);
+		} else if (token.value === "(") {
+			return tokens.slice(i + 1, findClosingToken(tokens, i));
+		} else if (token.type === "identifier" && tokens[i + 1]?.value === "=>") {
+			return [token];
+		} else if (token.value === "{" || token.value === "=>") {
+			return undefined;
+		}
+	}
+	return undefined;
+}
+
+function collectPatternBindings(
+	pattern: Token[],
+	index: number,
+	path: Array<string | number>,
+	bindings: ParameterBinding[]
+): void {
+	const open = pattern[0]?.value;
+	if (open !== "{" && open !== "[") return;
+	const elements = splitTopLevel(pattern.slice(1, findClosingToken(pattern, 0)), ",");
+
+	if (open === "[") {
+		elements.forEach((element, position) => {
+			if (element.length === 0) return;
+			if (element[0].value === "...") {
+				const target = element[1];
+				if (target?.type === "identifier") {
+					bindings.push({ name: target.value, index, path, rest: { kind: "array", from: position } });
+				}
+				return;
+			}
+			bindElement(element, index, [...path, position], bindings);
+		});
+		return;
+	}
+
+	const keys: string[] = [];
+	for (const element of elements) {
+		if (element.length === 0) continue;
+		if (element[0].value === "...") {
+			const target = element[1];
+			if (target?.type === "identifier") {
+				bindings.push({ name: target.value, index, path, rest: { kind: "object", exclude: keys } });
+			}
+			continue;
+		}
+
+		const key = element[0].type === "string" ? unquote(element[0].value) : element[0].value;
+		if (element[0].type !== "identifier" && element[0].type !== "string" && element[0].type !== "number") {
+			continue; // computed keys cannot be resolved
+		}
+		keys.push(key);
+
+		if (element[1]?.value === ":") {
+			bindElement(element.slice(2), index, [...path, key], bindings);
+		} else {
+			bindElement(element, index, [...path, key], bindings);
+		}
+	}
+}
+
+function bindElement(
+	element: Token[],
+	index: number,
+	path: Array<string | number>,
+	bindings: ParameterBinding[]
+): void {
+	const [pattern, defaultTokens] = splitDefault(element);
+	if (pattern.length === 1 && pattern[0].type === "identifier") {
+		bindings.push({ name: pattern[0].value, index, path, defaultValue: parseLiteral(defaultTokens) });
+	} else {
+		collectPatternBindings(pattern, index, path, bindings);
+	}
+}
+
+function splitDefault(tokens: Token[]): [Token[], Token[]] {
+	const [pattern, ...rest] = splitTopLevel(tokens, "=");
+	return [pattern, rest.flat()];
+}
+
+function splitTopLevel(tokens: Token[], separator: string): Token[][] {
+	const parts: Token[][] = [[]];
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.type === "punctuator") {
+			if ("([{".includes(token.value)) depth++;
+			else if (")]}".includes(token.value)) depth--;
+			else if (depth === 0 && token.value === separator) {
+				// only the first `=` separates a default value; later ones belong to the default expression
+				if (separator !== "=" || parts.length === 1) {
+					parts.push([]);
+					continue;
+				}
+			}
+		}
+		parts[parts.length - 1].push(token);
+	}
+	return parts;
+}
+
+function findClosingToken(tokens: Token[], openIndex: number): number {
+	let depth = 0;
+	for (let i = openIndex; i < tokens.length; i++) {
+		if (tokens[i].type !== "punctuator") continue;
+		if ("([{".includes(tokens[i].value)) depth++;
+		else if (")]}".includes(tokens[i].value) && --depth === 0) return i;
+	}
+	return tokens.length;
+}
+
+function parseLiteral(tokens: Token[]): { value: unknown } | undefined {
+	if (tokens.length === 2 && tokens[0].value === "-" && tokens[1].type === "number") {
+		return { value: -Number(tokens[1].value) };
+	}
+	if (tokens.length !== 1) return undefined;
+	const [token] = tokens;
+	if (token.type === "string") return { value: unquote(token.value) };
+	if (token.type === "number") return { value: Number(token.value.replace(/_/g, "")) };
+	if (token.type === "template" && !token.value.includes("${")) return { value: unquote(token.value) };
+	if (token.type === "identifier" && ["true", "false", "null"].includes(token.value)) {
+		return { value: JSON.parse(token.value) as unknown };
+	}
+	return undefined;
+}
+
+function unquote(literal: string): string {
+	return literal.slice(1, -1).replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Splits JavaScript source into tokens, skipping whitespace and comments.
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i];
+		const rest = source.slice(i);
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (rest.startsWith("//")) {
+			const end = source.indexOf("\n", i);
+			i = end === -1 ? source.length : end;
+		} else if (rest.startsWith("/*")) {
+			const end = source.indexOf("*/", i + 2);
+			i = end === -1 ? source.length : end + 2;
+		} else if (char === '"' || char === "'") {
+			const end = skipString(source, i);
+			tokens.push({ type: "string", value: source.slice(i, end) });
+			i = end;
+		} else if (char === "`") {
+			const end = skipTemplate(source, i);
+			tokens.push({ type: "template", value: source.slice(i, end) });
+			i = end;
+		} else if (char === "/" && isRegexAllowed(tokens[tokens.length - 1])) {
+			const end = skipRegex(source, i);
+			tokens.push({ type: "regex", value: source.slice(i, end) });
+			i = end;
+		} else if (/\d/.test(char) || (char === "." && /\d/.test(source[i + 1] ?? ""))) {
+			const match = /^(?:0[xXoObB][\da-fA-F_]+|\d[\d_]*(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)n?/.exec(
+				rest
+			);
+			const value = match ? match[0] : char;
+			tokens.push({ type: "number", value });
+			i += value.length;
+		} else if (/[\p{L}\p{Nl}$_\\]/u.test(char)) {
+			const match = /^(?:[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$\u200c\u200d]|\\u[\da-fA-F]{4})+/u.exec(rest);
+			const value = match ? match[0] : char;
+			tokens.push({ type: "identifier", value });
+			i += value.length;
+		} else {
+			const punctuator = ["...", "=>", "?.", "??"].find(candidate => rest.startsWith(candidate)) ?? char;
+			tokens.push({ type: "punctuator", value: punctuator });
+			i += punctuator.length;
+		}
+	}
+	return tokens;
+}
+
+function skipString(source: string, start: number): number {
+	for (let i = start + 1; i < source.length; i++) {
+		if (source[i] === "\\") i++;
+		else if (source[i] === source[start]) return i + 1;
+	}
+	return source.length;
+}
+
+function skipTemplate(source: string, start: number): number {
+	for (let i = start + 1; i < source.length; i++) {
+		if (source[i] === "\\") {
+			i++;
+		} else if (source[i] === "`") {
+			return i + 1;
+		} else if (source.startsWith("${", i)) {
+			let depth = 0;
+			for (i += 2; i < source.length; i++) {
+				if (source[i] === "`") i = skipTemplate(source, i) - 1;
+				else if (source[i] === '"' || source[i] === "'") i = skipString(source, i) - 1;
+				else if (source[i] === "{") depth++;
+				else if (source[i] === "}" && depth-- === 0) break;
+			}
+		}
+	}
+	return source.length;
+}
+
+function skipRegex(source: string, start: number): number {
+	let inClass = false;
+	for (let i = start + 1; i < source.length; i++) {
+		const char = source[i];
+		if (char === "\\") i++;
+		else if (char === "[") inClass = true;
+		else if (char === "]") inClass = false;
+		else if (char === "/" && !inClass) {
+			const flags = /^[a-z]*/.exec(source.slice(i + 1));
+			return i + 1 + (flags ? flags[0].length : 0);
+		} else if (char === "\n") return i;
+	}
+	return source.length;
+}
+
+/**
+ * A `/` starts a regular expression unless it follows a value (identifier, literal or closing bracket).
+ */
+function isRegexAllowed(previous: Token | undefined): boolean {
+	if (!previous) return true;
+	if (previous.type === "punctuator") return !")]}".includes(previous.value);
+	return (
+		previous.type === "identifier" &&
+		["return", "typeof", "instanceof", "in", "of", "new", "delete", "void"].includes(previous.value)
+	);
+}
@@ -0,0 +1,98 @@
+/**
+ * Type-level validation of step descriptions.
+ *
+ * TypeScript does not expose parameter names in function types, so `{{param}}` placeholders can only be checked
+ * at runtime. What the types do allow checking at compile time:
+ * - `[[n]]` indices against the arity of the decorated method
+ * - property paths of index placeholders, e.g. `[[0].user.name]`, against the argument type
+ * - property paths of `{{this...}}` placeholders against the class type
+ *
+ * Paths using optional chaining, defaults, filters, method calls or quoted keys are not checked.
+ */
+
+/**
+ * Resolves to `unknown` for a valid description, or to an object type whose single property describes the
+ * problem, so the decorated method is not assignable to it and the message shows up in the compiler error.
+ */
+export type PlaceholderCheck<Description extends string, This, Args extends unknown[]> = string extends Description
+	? unknown
+	: FirstError<[CheckIndexPlaceholders<Description, Args>, CheckThisPlaceholders<Description, This>]> extends infer E
+		? E extends true
+			? unknown
+			: { "Invalid @step placeholder": E }
+		: unknown;
+
+type FirstError<Results extends unknown[]> = Results extends [infer Head, ...infer Tail]
+	? Head extends true
+		? FirstError<Tail>
+		: Head
+	: true;
+
+type CheckIndexPlaceholders<
+	Description extends string,
+	Args extends unknown[],
+> = Description extends `${string}[[${infer Index extends `${number}`}]${infer Rest}`
+	? ReadIndexPath<Rest> extends [infer Path extends string, infer After extends string]
+		? FirstError<[CheckIndex<Index, Path, Args>, CheckIndexPlaceholders<After, Args>]>
+		: true
+	: true;
+
+type CheckThisPlaceholders<Description extends string, This> = Description extends `${string}{{this${infer Rest}`
+	? Rest extends `${infer Path}}}${infer After}`
+		? FirstError<[CheckSimplePath<This, Path, "this">, CheckThisPlaceholders<After, This>]>
+		: true
+	: true;
+
+type CheckIndex<Index extends string, Path extends string, Args extends unknown[]> = number extends Args["length"]
+	? true
+	: Index extends keyof Args
+		? CheckSimplePath<Args[Index], Path, `[[${Index}]]`>
+		: `Parameter index '${Index}' is out of bounds: the method has ${Args["length"]} parameter(s)`;
+
+type CheckSimplePath<
+	T,
+	Path extends string,
+	Root extends string,
+> = Path extends `${string}${"?" | "|" | "(" | '"' | "'" | " "}${string}` ? true : CheckPath<T, Path, Root>;
+
+type CheckPath<T, Path extends string, Resolved extends string> = unknown extends T
+	? true
+	: Path extends ""
+		? true
+		: Path extends `.${infer Rest}`
+			? ReadKey<Rest> extends [infer Key extends string, infer Remaining extends string]
+				? Key extends keyof NonNullable<T>
+					? CheckPath<NonNullable<T>[Key], Remaining, `${Resolved}.${Key}`>
+					: `Property '${Key}' does not exist on '${Resolved}'`
+				: true
+			: Path extends `[${infer Index extends number}]${infer Remaining}`
+				? NonNullable<T> extends readonly unknown[]
+					? CheckPath<NonNullable<T>[Index], Remaining, `${Resolved}[${Index}]`>
+					: `'${Resolved}' is not an array`
+				: true;
+
+/**
+ * Splits off the property name up to the next `.` or `[`.
+ */
+type ReadKey<Text extends string, Key extends string = ""> = Text extends `${infer Char}${infer Rest}`
+	? Char extends "." | "["
+		? [Key, Text]
+		: ReadKey<Rest, `${Key}${Char}`>
+	: [Key, ""];
+
+/**
+ * Splits off the path of an index placeholder up to its closing `]`, skipping nested brackets.
+ */
+type ReadIndexPath<
+	Text extends string,
+	Depth extends unknown[] = [],
+	Path extends string = "",
+> = Text extends `${infer Char}${infer Rest}`
+	? Char extends "]"
+		? Depth extends [unknown, ...infer Outer]
+			? ReadIndexPath<Rest, Outer, `${Path}]`>
+			: [Path, Rest]
+		: Char extends "["
+			? ReadIndexPath<Rest, [...Depth, unknown], `${Path}[`>
+			: ReadIndexPath<Rest, Depth, `${Path}${Char}`>
+	: never;
@@ -0,0 +1,478 @@
+import { FunctionParameters, resolveBinding } from "./parameters";
+import { getSecretMask, isSecretKey, isSecretPath, Secret } from "./secrets";
+import { SerializeOptions, serializeValue } from "./serializers";
+
+/**
+ * A single property access in a placeholder path, e.g. `.name`, `?.email` or `[0]`.
+ */
+export interface PathSegment {
+	key: string | number;
+	optional: boolean;
+	/** Whether the property is a method that is called without arguments, e.g. `url()`. */
+	call?: boolean;
+}
+
+/**
+ * A parsed `{{...}}` or `[[n]...]` placeholder.
+ */
+export interface Placeholder {
+	/** The placeholder as written in the description, e.g. `{{user?.email ?? "none"}}`. */
+	source: string;
+	/**
+	 * The parameter name, `this` or a built-in token (`$class`, `$method`, `$args`) for `{{...}}` placeholders,
+	 * or the argument index for `[[n]]` placeholders.
+	 */
+	root: string | number;
+	path: PathSegment[];
+	/** The value used when the path resolves to `undefined` or `null`. */
+	fallback?: { value: unknown };
+	filters: string[];
+}
+
+/**
+ * A description split into literal text and placeholders.
+ */
+export type DescriptionTemplate = Array<string | Placeholder>;
+
+/**
+ * The values placeholders of a single method call are resolved against.
+ */
+export interface PlaceholderScope {
+	instance: unknown;
+	className: string;
+	methodName: string;
+	parameters: FunctionParameters;
+	args: unknown[];
+}
+
+/**
+ * What happens when a placeholder cannot be resolved: throw an error, log a warning and keep the placeholder as
+ * written, or render `<missing>` in its place.
+ */
+export type PlaceholderErrorMode = "throw" | "warn" | "missing";
+
+/**
+ * The text rendered for a placeholder that cannot be resolved in the `"missing"` error mode.
+ */
+export const MISSING_PLACEHOLDER_VALUE = "<missing>";
+
+/**
+ * Options used when rendering placeholder values into a description.
+ */
+export interface FormatOptions extends SerializeOptions {
+	secrets?: string[];
+	placeholderErrors?: PlaceholderErrorMode;
+}
+
+const builtInTokens: Record<string, (scope: PlaceholderScope, options: FormatOptions) => unknown> = {
+	this: scope => scope.instance,
+	$class: scope => scope.className,
+	$method: scope => scope.methodName,
+	$args: (scope, options) => maskSecretArguments(scope, options.secrets ?? []),
+};
+
+const placeholderFilters: Record<string, (value: unknown) => unknown> = {
+	upper: value => (typeof value === "string" ? value.toUpperCase() : value),
+	lower: value => (typeof value === "string" ? value.toLowerCase() : value),
+	trim: value => (typeof value === "string" ? value.trim() : value),
+	count: countValue,
+	first: value => (Array.isArray(value) ? value[0] : value),
+	last: value => (Array.isArray(value) ? value[value.length - 1] : value),
+};
+
+/**
+ * Splits a step description into literal text and parsed placeholders.
+ *
+ * Supported syntax inside `{{...}}`, and after the index of `[[n]...]`:
+ * - roots: parameter names, `this` and the built-in tokens `$class`, `$method` and `$args` (`{{...}}` only)
+ * - property paths: `user.name`, `items[0].name`, `order.lines.length`, `map["some key"]`
+ * - calls of methods without arguments: `this.page.url()`
+ * - optional chaining: `user?.email`, `items?.[0]`
+ * - defaults: `name ?? "anonymous"` (strings, numbers, `true`, `false`, `null`)
+ * - filters: `name | upper`, `items | count`
+ *
+ * @throws {Error} If a placeholder has invalid syntax or uses an unknown filter.
+ */
+export function parseDescription(methodName: string, description: string): DescriptionTemplate {
+	const template: DescriptionTemplate = [];
+	let text = "";
+	let position = 0;
+
+	while (position < description.length) {
+		const placeholder =
+			description.startsWith("{{", position) || description.startsWith("[[", position)
+				? readPlaceholder(methodName, description, position)
+				: undefined;
+		if (!placeholder) {
+			text += description[position++];
+			continue;
+		}
+		if (text) template.push(text);
+		text = "";
+		template.push(placeholder);
+		position += placeholder.source.length;
+	}
+	if (text) template.push(text);
+	return template;
+}
+
+/**
+ * Returns the parameter names referenced by `{{...}}` placeholders that the method does not declare.
+ * `this` and the built-in tokens are never missing.
+ */
+export function findMissingParams(template: DescriptionTemplate, parameters: FunctionParameters): string[] {
+	const paramNames = parameters.bindings.map(binding => binding.name);
+	return template
+		.filter((part): part is Placeholder => typeof part !== "string" && typeof part.root === "string")
+		.map(placeholder => placeholder.root as string)
+		.filter(param => !paramNames.includes(param) && !Object.prototype.hasOwnProperty.call(builtInTokens, param));
+}
+
+/**
+ * Renders a parsed description with the given method arguments.
+ *
+ * @throws {Error} If an index placeholder is out of bounds or a non-optional property does not exist, unless
+ * `placeholderErrors` is `"warn"` or `"missing"`.
+ */
+export function formatDescription(
+	template: DescriptionTemplate,
+	scope: PlaceholderScope,
+	options: FormatOptions
+): string {
+	const methodName = scope.className ? `${scope.className}.${scope.methodName}` : scope.methodName;
+	const placeholders = template.filter((part): part is Placeholder => typeof part !== "string");
+	const errors = new Map<Placeholder, Error>();
+	for (const placeholder of placeholders) {
+		if (typeof placeholder.root === "number" && placeholder.root >= scope.args.length) {
+			const index = placeholder.root;
+			errors.set(
+				placeholder,
+				new Error(
+					`Parameter index '${index}' is out of bounds in method '${methodName}'. ` +
+						`This method received ${scope.args.length} argument(s), but the @step decorator references index ${index}. ` +
+						`Please check your @step decorator placeholders.`
+				)
+			);
+		} else if (typeof placeholder.root === "string" && !isKnownRoot(placeholder.root, scope)) {
+			errors.set(
+				placeholder,
+				new Error(
+					`Missing function parameter '${placeholder.root}' in method '${methodName}'. ` +
+						`Please check your @step decorator placeholders.`
+				)
+			);
+		}
+	}
+
+	const handleError = (placeholder: Placeholder, error: unknown): string => {
+		if (options.placeholderErrors === "warn" && error instanceof Error) {
+			console.warn(error.message);
+			return placeholder.source;
+		}
+		if (options.placeholderErrors === "missing" && error instanceof Error) {
+			return MISSING_PLACEHOLDER_VALUE;
+		}
+		throw error;
+	};
+	// Report invalid indices and names before any placeholder is evaluated
+	const firstError = errors.values().next();
+	if (!firstError.done && (options.placeholderErrors ?? "throw") === "throw") {
+		throw firstError.value;
+	}
+
+	return template
+		.map(part => {
+			if (typeof part === "string") return part;
+			const error = errors.get(part);
+			if (error) return handleError(part, error);
+			try {
+				return renderPlaceholder(methodName, part, scope, options);
+			} catch (renderError) {
+				return handleError(part, renderError);
+			}
+		})
+		.join("");
+}
+
+function renderPlaceholder(
+	methodName: string,
+	placeholder: Placeholder,
+	scope: PlaceholderScope,
+	options: FormatOptions
+): string {
+	const { root } = placeholder;
+	const rootName = typeof root === "number" ? scope.parameters.names[root] : root;
+	let value = resolveRoot(root, scope, options);
+	let owner: unknown;
+
+	for (const segment of placeholder.path) {
+		if (value instanceof Secret) break;
+		if (value !== undefined && value !== null && segment.key in Object(value)) {
+			owner = value;
+			value = (value as Record<string | number, unknown>)[segment.key];
+		} else if (segment.optional || placeholder.fallback) {
+			value = undefined;
+			break;
+		} else {
+			const target = typeof root === "number" || findBinding(root, scope) ? "parameter " : "";
+			throw new Error(
+				`Invalid @step placeholder '${placeholder.source}' in method '${methodName}': ` +
+					`Property '${segment.key}' does not exist on ${target}'${rootName ?? formatRoot(root)}'. ` +
+					`Please check your @step decorator placeholders.`
+			);
+		}
+		if (segment.call) {
+			if (typeof value !== "function") {
+				throw new Error(
+					`Invalid @step placeholder '${placeholder.source}' in method '${methodName}': ` +
+						`Property '${segment.key}' is not a function. ` +
+						`Please check your @step decorator placeholders.`
+				);
+			}
+			value = (value as (this: unknown) => unknown).call(owner);
+		}
+	}
+
+	if (isSecretPlaceholder(placeholder, rootName, options.secrets ?? []) || value instanceof Secret) {
+		return getSecretMask();
+	}
+	if ((value === undefined || value === null) && placeholder.fallback) {
+		value = placeholder.fallback.value;
+	}
+	for (const filter of placeholder.filters) {
+		value = placeholderFilters[filter](value);
+	}
+	return serializeValue(value, options);
+}
+
+function isSecretPlaceholder(placeholder: Placeholder, rootName: string | undefined, secretPaths: string[]): boolean {
+	const keys = placeholder.path.map(segment => segment.key).filter((key): key is string => typeof key === "string");
+	if (rootName !== undefined) keys.unshift(rootName);
+	if (keys.some(isSecretKey)) return true;
+
+	const pathSuffix = formatPath(placeholder.path);
+	return (
+		isSecretPath(formatRoot(placeholder.root) + pathSuffix, secretPaths) ||
+		(rootName !== undefined && isSecretPath(rootName + pathSuffix, secretPaths))
+	);
+}
+
+function resolveRoot(root: string | number, scope: PlaceholderScope, options: FormatOptions): unknown {
+	if (typeof root === "number") return scope.args[root];
+	const binding = findBinding(root, scope);
+	if (binding) return resolveBinding(binding, scope.args);
+	return builtInTokens[root]?.(scope, options);
+}
+
+/**
+ * Returns the arguments for `{{$args}}`, wrapping those of secret parameters in a `Secret`: parameters with a secret
+ * name, and parameters or indices (`[[n]]`) listed in the secret paths.
+ */
+function maskSecretArguments(scope: PlaceholderScope, secretPaths: string[]): unknown[] {
+	const restBinding = scope.parameters.bindings.find(binding => binding.rest?.kind === "arguments");
+	return scope.args.map((arg, index) => {
+		const name =
+			restBinding?.rest?.kind === "arguments" && index >= restBinding.rest.from
+				? restBinding.name
+				: scope.parameters.names[index];
+		const secret =
+			(name !== undefined && (isSecretKey(name) || isSecretPath(name, secretPaths))) ||
+			isSecretPath(`[[${index}]]`, secretPaths);
+		return secret && !(arg instanceof Secret) ? new Secret(arg) : arg;
+	});
+}
+
+function isKnownRoot(name: string, scope: PlaceholderScope): boolean {
+	return findBinding(name, scope) !== undefined || Object.prototype.hasOwnProperty.call(builtInTokens, name);
+}
+
+function findBinding(name: string, scope: PlaceholderScope) {
+	return scope.parameters.bindings.find(binding => binding.name === name);
+}
+
+function formatRoot(root: string | number): string {
+	return typeof root === "number" ? `[[${root}]]` : root;
+}
+
+function formatPath(path: PathSegment[]): string {
+	return path.map(segment => (typeof segment.key === "number" ? `[${segment.key}]` : `.${segment.key}`)).join("");
+}
+
+function countValue(value: unknown): unknown {
+	if (typeof value === "string" || Array.isArray(value)) return value.length;
+	if (value instanceof Map || value instanceof Set) return value.size;
+	if (value && typeof value === "object") return Object.keys(value).length;
+	return value === undefined || value === null ? 0 : value;
+}
+
+/**
+ * Reads the placeholder starting at `start`, or returns `undefined` when the text there is not a placeholder
+ * (e.g. `[[` not followed by an index).
+ */
+function readPlaceholder(methodName: string, description: string, start: number): Placeholder | undefined {
+	if (description.startsWith("{{", start)) {
+		const end = findClosing(description, start + 2, "}}");
+		if (end === -1) return undefined;
+		const source = description.slice(start, end + 2);
+		return parseExpression(methodName, source, description.slice(start + 2, end), undefined);
+	}
+
+	const indexMatch = /^\[\[(\d+)\]/.exec(description.slice(start));
+	if (!indexMatch) return undefined;
+	const end = findClosing(description, start + indexMatch[0].length, "]");
+	if (end === -1) return undefined;
+	const source = description.slice(start, end + 1);
+	return parseExpression(
+		methodName,
+		source,
+		description.slice(start + indexMatch[0].length, end),
+		parseInt(indexMatch[1], 10)
+	);
+}
+
+/**
+ * Finds the closing delimiter, skipping quoted strings and (for `]`) nested brackets.
+ */
+function findClosing(text: string, from: number, closing: string): number {
+	let depth = 0;
+	for (let i = from; i < text.length; i++) {
+		const char = text[i];
+		if (char === '"' || char === "'") {
+			i = skipQuoted(text, i);
+			continue;
+		}
+		if (closing === "]" && char === "[") {
+			depth++;
+		} else if (depth > 0 && char === "]") {
+			depth--;
+		} else if (text.startsWith(closing, i)) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function skipQuoted(text: string, start: number): number {
+	for (let i = start + 1; i < text.length; i++) {
+		if (text[i] === "\\") i++;
+		else if (text[i] === text[start]) return i;
+	}
+	return text.length;
+}
+
+function parseExpression(
+	methodName: string,
+	source: string,
+	expression: string,
+	index: number | undefined
+): Placeholder {
+	let position = 0;
+	const fail = (reason: string): never => {
+		throw new Error(
+			`Invalid @step placeholder '${source}' in method '${methodName}': ${reason}. ` +
+				`Please check your @step decorator placeholders.`
+		);
+	};
+	const skipWhitespace = () => {
+		while (/\s/.test(expression[position] ?? "")) position++;
+	};
+	const readIdentifier = (): string | undefined => {
+		const match = /^[A-Za-z_$][\w$]*/.exec(expression.slice(position));
+		if (!match) return undefined;
+		position += match[0].length;
+		return match[0];
+	};
+	const readBracketKey = (): string | number => {
+		position++; // [
+		skipWhitespace();
+		let key: string | number;
+		const char = expression[position];
+		if (char === '"' || char === "'") {
+			const end = skipQuoted(expression, position);
+			key = unquote(expression.slice(position, end + 1));
+			position = end + 1;
+		} else {
+			const match = /^\d+/.exec(expression.slice(position));
+			if (!match) return fail("expected an index or a quoted key inside '[...]'");
+			key = parseInt(match[0], 10);
+			position += match[0].length;
+		}
+		skipWhitespace();
+		if (expression[position] !== "]") return fail("expected ']'");
+		position++;
+		return key;
+	};
+
+	skipWhitespace();
+	let root: string | number;
+	if (index !== undefined) {
+		root = index;
+	} else {
+		const name = readIdentifier();
+		if (!name) return fail("expected a parameter name");
+		root = name;
+	}
+
+	const path: PathSegment[] = [];
+	while (position < expression.length) {
+		const optional = expression.startsWith("?.", position);
+		if (optional) position += 2;
+		let key: string | number | undefined;
+		if (expression[position] === "[") {
+			key = readBracketKey();
+		} else if (optional || expression[position] === ".") {
+			if (!optional) position++;
+			key = readIdentifier();
+			if (key === undefined) return fail("expected a property name");
+		} else {
+			break;
+		}
+		const call = expression.startsWith("()", position);
+		if (call) position += 2;
+		path.push({ key, optional, call });
+	}
+
+	skipWhitespace();
+	let fallback: { value: unknown } | undefined;
+	if (expression.startsWith("??", position)) {
+		position += 2;
+		skipWhitespace();
+		const match = /^("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|-?\d+(?:\.\d+)?|true|false|null)/.exec(
+			expression.slice(position)
+		);
+		if (!match) return fail("expected a string, number, boolean or null after '??'");
+		fallback = { value: parseLiteral(match[0]) };
+		position += match[0].length;
+		skipWhitespace();
+	}
+
+	const filters: string[] = [];
+	while (expression[position] === "|") {
+		position++;
+		skipWhitespace();
+		const filter = readIdentifier();
+		if (!filter) return fail("expected a filter name after '|'");
+		if (!Object.prototype.hasOwnProperty.call(placeholderFilters, filter)) {
+			return fail(`unknown filter '${filter}' (available: ${Object.keys(placeholderFilters).join(", ")})`);
+		}
+		filters.push(filter);
+		skipWhitespace();
+	}
+
+	if (position < expression.length) {
+		return fail(`unexpected '${expression.slice(position)}'`);
+	}
+	return { source, root, path, fallback, filters };
+}
+
+function parseLiteral(literal: string): unknown {
+	if (literal.startsWith('"') || literal.startsWith("'")) return unquote(literal);
+	if (literal === "true") return true;
+	if (literal === "false") return false;
+	if (literal === "null") return null;
+	return Number(literal);
+}
+
+function unquote(quoted: string): string {
+	return quoted.slice(1, -1).replace(/\\(.)/g, "$1");
+}
@@ -1,231 +1,931 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
 import { test, TestStepInfo } from "@playwright/test";
 
-const StepSymbol: unique symbol = Symbol("playwrightStep");
+import { attachStepValues, StepValuesAttachmentOptions, toNamedArguments } from "./attachments";
+import { captureCallSiteLocation } from "./call-site";
+import { DEFAULT_STACK_FILTER_FRAGMENTS, DEFAULT_TITLE_TEMPLATE, getStepConfig, StepConfig } from "./config";
+import { captureFailureEvidence, FailureEvidenceOptions } from "./failure-evidence";
+import { getFunctionParameters } from "./parameters";
+import { PlaceholderCheck } from "./placeholder-validation";
+import {
+	DescriptionTemplate,
+	findMissingParams,
+	formatDescription,
+	parseDescription,
+	PlaceholderErrorMode,
+} from "./placeholders";
+import { runWithPlugins, StepEvent } from "./plugins";
+import { annotateTest } from "./requirements";
+import { runWithRetry, StepRetryOptions } from "./retry";
+import { failScenarioStep, GherkinKeyword, recordScenarioStep } from "./scenario";
+import { ValueSerializer } from "./serializers";
+import { isStepSkipError, isTestSkipError } from "./skip-errors";
+import { recordSoftStepFailure } from "./soft-steps";
+import { enrichStepError } from "./step-errors";
+import { attachStepMetadata } from "./step-metadata";
+
+/**
+ * The step context of a running decorated method, linked to the context of the step it was called from.
+ */
+interface StepContext {
+	instance: unknown;
+	stepInfo: TestStepInfo;
+	/** The name of the step, e.g. `LoginPage.login`, used in the breadcrumb of errors. */
+	name: string;
+	/** The Gherkin keyword of the step, if it is a `Given`, `When`, `Then` or `And` step. */
+	keyword?: GherkinKeyword;
+	parent?: StepContext;
+}
+
+const stepContextStorage = new AsyncLocalStorage<StepContext>();
+
+/**
+ * Options passed through to Playwright's `test.step`.
+ */
+export interface StepOptions {
+	/**
+	 * Whether to box the step in the report. Errors inside a boxed step point to the call site of the decorated method.
+	 */
+	box?: boolean;
+	/**
+	 * Maximum time in milliseconds for the step to finish. Defaults to no timeout other than the test timeout.
+	 */
+	timeout?: number;
+	/**
+	 * Placeholder paths whose values are masked in the step title, e.g. `["password", "user.token", "[[2]]"]`.
+	 * A path also covers every property nested below it.
+	 */
+	secrets?: string[];
+	/**
+	 * Serializers for placeholder values, tried before the globally registered serializers and the built-in rules.
+	 */
+	serializers?: ValueSerializer[];
+	/**
+	 * Maximum length of a rendered placeholder value. Longer values are truncated. Defaults to 100, `0` disables truncation.
+	 */
+	maxLength?: number;
+	/**
+	 * Run synchronous methods, getters and functions synchronously, returning their result instead of a promise.
+	 * By default they are turned into async steps. Setters always run synchronously.
+	 */
+	sync?: boolean;
+	/**
+	 * Re-run the method when it fails, up to a number of `attempts` or until a total `timeout` has passed. Each attempt
+	 * is recorded as a child step. Not applied to steps running synchronously.
+	 */
+	retry?: StepRetryOptions;
+	/**
+	 * Record a failure of the step without stopping the test, like `expect.soft`. The step and the test are marked as
+	 * failed, and the failed method returns `undefined`.
+	 */
+	soft?: boolean;
+	/**
+	 * Skip the step when this returns `true`, without running the method. It is called inside the step with the
+	 * instance (`this`) and the arguments of the method. Not applied to steps running synchronously.
+	 */
+	skipIf?(self: unknown, ...args: unknown[]): boolean | Promise<boolean>;
+	/**
+	 * The reason shown for a step skipped by `skipIf`.
+	 */
+	reason?: string;
+	/**
+	 * Returns the result of a method skipped by `skipIf`. Without it, a skipped method returns `undefined`.
+	 */
+	skipFallback?(self: unknown, ...args: unknown[]): unknown;
+	/**
+	 * Attach the arguments and the resolved return value of the method to the step as JSON, with secrets masked.
+	 * Pass an object to attach only one of them or to change the size limits.
+	 */
+	attachValues?: boolean | StepValuesAttachmentOptions;
+	/**
+	 * Attach a screenshot, the URL and optionally the HTML of the page to the step when the method throws.
+	 * The page is read from the `page` or `_page` property of the instance or its `getPage()` method.
+	 */
+	captureOnFailure?: boolean | FailureEvidenceOptions;
+	/**
+	 * Prefix the title with a Gherkin keyword and record the step for `attachScenario`. Set by `Given`, `When`, `Then`
+	 * and `And`; `"Then"` marks the step as an assertion of the scenario.
+	 */
+	keyword?: GherkinKeyword;
+	/**
+	 * Tags of the step, e.g. `["@checkout"]`. They are recorded in the step metadata and added to the annotations of
+	 * the test with the type `tag`.
+	 */
+	tags?: string[];
+	/**
+	 * IDs of the requirements the step verifies, e.g. `["REQ-142"]`. They are recorded in the step metadata, added to
+	 * the annotations of the test with the type `requirement`, and listed in the requirement coverage of the step
+	 * tree reporter.
+	 */
+	requirements?: string[];
+}
+
+/**
+ * The result of a step: the value itself for synchronous steps, a promise of it otherwise.
+ */
+type StepResult<ReturnType, Sync extends boolean> = [Sync] extends [true] ? ReturnType : Promise<ReturnType>;
+
+/**
+ * A method, function or getter that can be wrapped in a step. Unless `Sync` is `true`, it has to return a promise,
+ * as the step turns its result into one.
+ */
+type StepMethod<This, Args extends unknown[], ReturnType, Sync extends boolean> = (
+	this: This,
+	...args: Args
+) => StepResult<ReturnType, Sync>;
+
+type StepSetter<This, Value> = (this: This, value: Value) => void;
+
+/**
+ * A legacy (`experimentalDecorators`) property descriptor of a method or accessor.
+ */
+type StepDescriptor<Value> = TypedPropertyDescriptor<Value>;
+
+/**
+ * Legacy decorators receive the same kind of descriptor for methods and accessors. This keeps methods whose
+ * arguments do not match a title function from being accepted as accessors.
+ */
+type NotAMethod<Value> = Value extends Function ? { "Not an accessor": Value } : unknown;
+
+/**
+ * The decorator returned by `step()`, wrapping a method or accessor in a Playwright step.
+ *
+ * Works with both standard decorators and TypeScript's `experimentalDecorators`.
+ *
+ * @template Sync Whether synchronous methods and getters keep running synchronously (the `sync` option).
+ */
+export type StepDecorator<Sync extends boolean = false> = ValidatedStepDecorator<string, Sync>;
+
+/**
+ * The decorator returned by `step()` for a description, checking its index and `{{this...}}` placeholders against
+ * the decorated method at compile time.
+ */
+export interface ValidatedStepDecorator<Description extends string, Sync extends boolean = false> {
+	<This extends { constructor: { name: string } }, Args extends unknown[], ReturnType>(
+		target: This,
+		propertyKey: string | symbol,
+		descriptor: StepDescriptor<StepMethod<This, Args, ReturnType, Sync> & PlaceholderCheck<Description, This, Args>>
+	): StepDescriptor<StepMethod<This, Args, ReturnType, Sync>>;
+	<This extends { constructor: { name: string } }, Value>(
+		target: This,
+		propertyKey: string | symbol,
+		descriptor: StepDescriptor<StepResult<Value, Sync>> & PlaceholderCheck<Description, This, []>
+	): StepDescriptor<StepResult<Value, Sync>>;
+	<This extends { constructor: { name: string } }, Value>(
+		target: StepSetter<This, Value> & PlaceholderCheck<Description, This, [Value]>,
+		context: ClassSetterDecoratorContext<This, Value>
+	): StepSetter<This, Value>;
+	<This extends { constructor: { name: string } }, Value>(
+		target: StepMethod<This, [], Value, Sync> & PlaceholderCheck<Description, This, []>,
+		context: ClassGetterDecoratorContext<This, StepResult<Value, Sync>>
+	): StepMethod<This, [], Value, Sync>;
+	<This extends { constructor: { name: string } }, Args extends unknown[], ReturnType>(
+		target: StepMethod<This, Args, ReturnType, Sync> & PlaceholderCheck<Description, This, Args>,
+		context: ClassMethodDecoratorContext<This, StepMethod<This, Args, ReturnType, Sync>>
+	): StepMethod<This, Args, ReturnType, Sync>;
+}
+
+/**
+ * A function that creates the step title from the arguments of the decorated method.
+ * It is called with `this` bound to the class instance.
+ */
+export type StepTitleFunction<This, Args extends unknown[]> = (this: This, ...args: Args) => string;
+
+/**
+ * The decorator returned by `step()` for a title function, only accepting methods whose arguments match the function.
+ */
+export interface TypedStepDecorator<This, Args extends unknown[], Sync extends boolean = false> {
+	<ReturnType>(
+		target: object,
+		propertyKey: string | symbol,
+		descriptor: StepDescriptor<StepMethod<This, Args, ReturnType, Sync>>
+	): StepDescriptor<StepMethod<This, Args, ReturnType, Sync>>;
+	<Value>(
+		target: object,
+		propertyKey: string | symbol,
+		descriptor: StepDescriptor<StepResult<Value, Sync>> & NotAMethod<Value>
+	): StepDescriptor<StepResult<Value, Sync>>;
+	<Value>(target: StepSetter<This, Value>, context: ClassSetterDecoratorContext<This, Value>): StepSetter<This, Value>;
+	<Value>(
+		target: StepMethod<This, [], Value, Sync>,
+		context: ClassGetterDecoratorContext<This, StepResult<Value, Sync>>
+	): StepMethod<This, [], Value, Sync>;
+	<ReturnType>(
+		target: StepMethod<This, Args, ReturnType, Sync>,
+		context: ClassMethodDecoratorContext<This, StepMethod<This, Args, ReturnType, Sync>>
+	): StepMethod<This, Args, ReturnType, Sync>;
+}
+
+/**
+ * Resolves to `true` for options that enable `sync`.
+ */
+type IsSync<Options> = Options extends { sync: true } ? true : false;
+
+/**
+ * The signature of `step()`, also returned by `createStepDecorator()`.
+ */
+export interface StepFunction {
+	<Options extends StepOptions = StepOptions>(options?: Options): StepDecorator<IsSync<Options>>;
+	<Description extends string, Options extends StepOptions = StepOptions>(
+		description: Description,
+		options?: Options
+	): ValidatedStepDecorator<Description, IsSync<Options>>;
+	<This, Args extends unknown[], Options extends StepOptions = StepOptions>(
+		title: StepTitleFunction<This, Args>,
+		options?: Options
+	): TypedStepDecorator<This, Args, IsSync<Options>>;
+}
+
+type StepTitle = string | StepTitleFunction<unknown, unknown[]>;
 
-type AsyncMethod<This, Args extends unknown[], ReturnType> = (this: This, ...args: Args) => Promise<ReturnType>;
 /**
  * Decorator to wrap an async method in a Playwright step with a dynamic description.
  *
+ * Synchronous methods and getters are turned into async steps, so they have to be declared as returning a promise,
+ * unless the `sync` option is set. Setters always run synchronously.
+ *
  * If no description is provided, the step will use the format: `ClassName.methodName`.
  *
  * Placeholders in the description (e.g. `{{user.name}}` or `[[0]]`) will be replaced with actual argument values at runtime.
  *
+ * Instead of a description, a title function can be passed. Its parameters are inferred from the decorated method,
+ * and it is called with `this` bound to the class instance.
+ *
  * @template This The type of the class instance.
  * @template Args The argument types of the decorated method.
  * @template ReturnType The return type of the decorated method.
- * @param description Optional step description, supporting placeholders like `{{param}}`, `{{param.prop}}`, or `[[index]]`.
- * @returns A decorator function that wraps the target async method in a Playwright step.
+ * @param description Optional step description, supporting placeholders like `{{param}}`, `{{param.items[0].prop}}`,
+ * `{{param?.prop ?? "default" | upper}}`, `[[index]]` or `[[index].prop]`, or a function returning the title.
+ * @param options Optional `test.step` options such as `box` and `timeout`. May also be passed as the only argument.
+ * @returns A decorator function that wraps the target method or accessor in a Playwright step.
  *
  * @example
  * ```typescript
  * class MyTest {
- *   @step("Login as {{user.name}}")
+ *   @step("Login as {{user.name}}", { box: true })
  *   async login(user: { name: string }) { ... }
  *
  *   @step("Click button [[0]] times")
  *   async clickButton(times: number) { ... }
  *
+ *   @step((user, role) => `Assign ${role} to ${user.name}`)
+ *   async assignRole(user: { name: string }, role: string) { ... }
+ *
  *   @step()
  *   async defaultStep() { ... } // Step will be "MyTest.defaultStep"
  * }
  * ```
  *
+ * Out-of-bounds `[[index]]` placeholders and invalid property paths of index and `{{this...}}` placeholders are
+ * compile errors. Named `{{param}}` placeholders are checked at runtime, as TypeScript does not expose parameter names.
+ *
  * @throws {Error} If placeholders reference missing or out-of-bounds parameters.
- * @throws {Error} If property access in a placeholder is invalid.
+ * @throws {Error} If a placeholder has invalid syntax or property access in a placeholder is invalid.
  */
-export function step(description?: string) {
-	return function <This extends { constructor: { name: string } }, Args extends unknown[], ReturnType>(
-		target: AsyncMethod<This, Args, ReturnType>,
-		context: ClassMethodDecoratorContext<This, AsyncMethod<This, Args, ReturnType>>
+export const step: StepFunction = createStepDecorator();
+
+/**
+ * A `step` decorator whose steps are soft: a failing step is marked as failed and fails the test at the end,
+ * but the test keeps running, like with `expect.soft`.
+ *
+ * @example
+ * ```typescript
+ * class Footer {
+ *   @softStep("Verify footer links")
+ *   async verifyLinks() { ... }
+ * }
+ * ```
+ */
+export const softStep: StepFunction = createStepDecorator({ soft: true });
+
+/**
+ * A `step` decorator for the context of a scenario, prefixing titles with `Given`.
+ *
+ * Steps of `Given`, `When`, `Then` and `And` support the same placeholders and options as `step`, and are recorded
+ * for `attachScenario`, which attaches them to the test as a Gherkin scenario. The decorators are capitalized like in
+ * Cucumber; `given`, `when` and `and` are lowercase aliases. There is no lowercase `then`, as a module exporting
+ * `then` would be treated as a promise by `await import()`.
+ *
+ * @example
+ * ```typescript
+ * class CheckoutSteps {
+ *   @Given("I am logged in as {{user}}")
+ *   async loggedIn(user: string) { ... } // Step will be "Given I am logged in as alice"
+ *
+ *   @When("I pay with card {{card}}")
+ *   async pay(card: string) { ... }
+ *
+ *   @Then("the order is confirmed")
+ *   async orderConfirmed() { ... }
+ * }
+ * ```
+ */
+export const Given: StepFunction = createStepDecorator({ keyword: "Given" });
+
+/**
+ * A `step` decorator for the action of a scenario, prefixing titles with `When`. See `Given`.
+ */
+export const When: StepFunction = createStepDecorator({ keyword: "When" });
+
+/**
+ * A `step` decorator for an assertion of a scenario, prefixing titles with `Then`. See `Given`.
+ */
+export const Then: StepFunction = createStepDecorator({ keyword: "Then" });
+
+/**
+ * A `step` decorator continuing the previous `Given`, `When` or `Then` step, prefixing titles with `And`. See `Given`.
+ */
+export const And: StepFunction = createStepDecorator({ keyword: "And" });
+
+/**
+ * Lowercase alias of `Given`.
+ */
+export const given: StepFunction = Given;
+
+/**
+ * Lowercase alias of `When`.
+ */
+export const when: StepFunction = When;
+
+/**
+ * Lowercase alias of `And`. Assertions use `Then`, which has no lowercase alias.
+ */
+export const and: StepFunction = And;
+
+/**
+ * Creates a `step` decorator with default `test.step` options.
+ *
+ * Options passed to the created decorator are merged over the defaults.
+ *
+ * @param defaults Options applied to every step created by the returned decorator.
+ * @returns A function with the same signature as `step`.
+ *
+ * @example
+ * ```typescript
+ * const boxedStep = createStepDecorator({ box: true });
+ *
+ * class LoginPage {
+ *   @boxedStep("Login as {{user.name}}")
+ *   async login(user: { name: string }) { ... }
+ * }
+ * ```
+ */
+export function createStepDecorator(defaults: StepOptions = {}): StepFunction {
+	return function (descriptionOrOptions?: StepTitle | StepOptions, options?: StepOptions) {
+		if (
+			typeof descriptionOrOptions === "string" ||
+			typeof descriptionOrOptions === "function" ||
+			descriptionOrOptions === undefined
+		) {
+			return createStepWrapper(descriptionOrOptions, { ...defaults, ...options });
+		}
+		return createStepWrapper(undefined, { ...defaults, ...descriptionOrOptions });
+	} as StepFunction;
+}
+
+/**
+ * Options for the class-level `@steps` decorator.
+ */
+export interface ClassStepOptions extends StepOptions {
+	/**
+	 * Only wrap methods whose name equals one of the strings or matches one of the patterns.
+	 */
+	include?: Array<string | RegExp>;
+	/**
+	 * Never wrap methods whose name equals one of the strings or matches one of the patterns.
+	 */
+	exclude?: Array<string | RegExp>;
+	/**
+	 * Text prepended to the default `ClassName.methodName` title of every wrapped method.
+	 */
+	titlePrefix?: string;
+}
+
+/**
+ * Class decorator to wrap every async prototype method in a Playwright step.
+ *
+ * Each wrapped method gets the default title `ClassName.methodName`, optionally prefixed with `titlePrefix`.
+ * Methods that are decorated with `@step` themselves keep their own description and options.
+ *
+ * @param options Optional method filters, title prefix and `test.step` options applied to every wrapped method.
+ * @returns A class decorator that wraps the async methods of the target class.
+ *
+ * @example
+ * ```typescript
+ * @steps({ exclude: [/^get/], titlePrefix: "Login page: " })
+ * class LoginPage {
+ *   async open() { ... } // Step will be "Login page: LoginPage.open"
+ *
+ *   @step("Login as {{user.name}}")
+ *   async login(user: { name: string }) { ... } // Step will be "Login as ..."
+ *
+ *   async getTitle() { ... } // Not wrapped
+ * }
+ * ```
+ */
+export function steps(options: ClassStepOptions = {}) {
+	const { include, exclude, titlePrefix, ...stepOptions } = options;
+	// The context is not passed by legacy `experimentalDecorators` class decorators
+	// oxlint-disable-next-line typescript-eslint/no-explicit-any
+	return function <Class extends abstract new (...args: any[]) => unknown>(
+		target: Class,
+		_context?: ClassDecoratorContext<Class>
+	): void {
+		const prototype = target.prototype as Record<string, unknown>;
+		for (const name of Object.getOwnPropertyNames(prototype)) {
+			if (name === "constructor") continue;
+
+			const descriptor = Object.getOwnPropertyDescriptor(prototype, name);
+			const method = descriptor?.value;
+			if (typeof method !== "function" || stepMethods.has(method) || !isAsyncFunction(method)) continue;
+			if (include && !matchesMethodName(name, include)) continue;
+			if (exclude && matchesMethodName(name, exclude)) continue;
+
+			Object.defineProperty(prototype, name, {
+				...descriptor,
+				value: wrapStep(method as StepBody, { name, method: true, titlePrefix }, undefined, stepOptions),
+			});
+		}
+	};
+}
+
+/**
+ * Methods created by the step wrapper, so `@steps` does not wrap them a second time.
+ */
+const stepMethods = new WeakSet<Function>();
+
+function createStepWrapper(description: StepTitle | undefined, options: StepOptions): StepDecorator {
+	return function (
+		target: unknown,
+		contextOrPropertyKey:
+			| ClassMethodDecoratorContext
+			| ClassGetterDecoratorContext
+			| ClassSetterDecoratorContext
+			| string
+			| symbol,
+		descriptor?: PropertyDescriptor
 	) {
-		return function replacementMethod(this: This, ...args: Args) {
-			const methodName = `${this.constructor.name}.${context.name as string}`;
-			let formattedDescription = methodName;
-			if (description) {
-				const paramNames = extractFunctionParamNames(target);
-				const placeholders = getPlaceholders(description);
-
-				const missingParams = findMissingParams(placeholders, paramNames);
-				if (missingParams.length > 0) {
-					throw new Error(
-						`Missing function parameters (${missingParams.join(", ")}) in method '${methodName}'. Please check your @step decorator placeholders.`
-					);
-				}
-
-				formattedDescription = formatDescription(methodName, description, placeholders, paramNames, args);
-			}
+		if (typeof contextOrPropertyKey === "object") {
+			const stepTarget = { name: String(contextOrPropertyKey.name), method: true };
+			// The return value of a setter is discarded, so it cannot be turned into an async step
+			const sync = contextOrPropertyKey.kind === "setter" || options.sync;
+			return wrapStep(target as StepBody, stepTarget, description, { ...options, sync });
+		}
 
-			// Capture the call site location for accurate reporting
-			const location = captureCallSiteLocation();
+		// Legacy `experimentalDecorators`: called with the prototype, the member name and its property descriptor
+		const stepTarget = { name: String(contextOrPropertyKey), method: true };
+		const { get, set } = (descriptor ?? {}) as { get?: StepBody; set?: StepBody };
+		if (get || set) {
+			return {
+				...descriptor,
+				get: get && wrapStep(get, stepTarget, description, options),
+				set: set && wrapStep(set, stepTarget, description, { ...options, sync: true }),
+			};
+		}
+		if (typeof descriptor?.value !== "function") {
+			throw new Error(`@step can only decorate methods and accessors, but '${stepTarget.name}' is neither.`);
+		}
+		return { ...descriptor, value: wrapStep(descriptor.value as StepBody, stepTarget, description, options) };
+	} as StepDecorator;
+}
 
-			return test.step(
+/**
+ * Wraps a plain function, arrow function or object method in a Playwright step.
+ *
+ * The same placeholders as in `@step` descriptions are supported, resolved from the parameters of `fn`.
+ * Unless the `sync` option is set, the wrapped function returns a promise.
+ *
+ * @template Fn The type of the wrapped function.
+ * @template Options The type of the options, to tell whether the wrapped function runs synchronously.
+ * @param title The step description, supporting the same placeholders as `@step`, or a function returning the title.
+ * @param fn The function to wrap.
+ * @param options Optional step options, see `step`.
+ * @returns A function with the same parameters as `fn` that runs it in a step.
+ *
+ * @example
+ * ```typescript
+ * const createUser = withStep("Create user {{name}}", async (name: string, role = "user") => {
+ *   await api.post("/users", { name, role });
+ * });
+ *
+ * await createUser("Alice"); // Step will be "Create user Alice"
+ * ```
+ */
+// oxlint-disable-next-line typescript-eslint/no-explicit-any
+export function withStep<Fn extends (...args: any[]) => unknown, Options extends StepOptions = StepOptions>(
+	title: string | StepTitleFunction<ThisParameterType<Fn>, Parameters<Fn>>,
+	fn: Fn,
+	options?: Options
+): WrappedStepFunction<Fn, IsSync<Options>> {
+	const stepTarget = { name: fn.name || "anonymous", method: false };
+	return wrapStep(fn as StepBody, stepTarget, title as StepTitle, options ?? {}) as WrappedStepFunction<
+		Fn,
+		IsSync<Options>
+	>;
+}
+
+/**
+ * The function returned by `withStep`, returning a promise unless `Sync` is `true`.
+ */
+// oxlint-disable-next-line typescript-eslint/no-explicit-any
+export type WrappedStepFunction<Fn extends (...args: any[]) => unknown, Sync extends boolean> = (
+	this: ThisParameterType<Fn>,
+	...args: Parameters<Fn>
+) => [Sync] extends [true] ? ReturnType<Fn> : Promise<Awaited<ReturnType<Fn>>>;
+
+type StepBody = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * What a step wraps: a class member (titled `ClassName.name`) or a standalone function (titled `name`).
+ */
+interface StepTarget {
+	name: string;
+	method: boolean;
+	titlePrefix?: string;
+}
+
+function wrapStep(
+	target: StepBody,
+	stepTarget: StepTarget,
+	description: StepTitle | undefined,
+	ownOptions: StepOptions
+): StepBody {
+	const isAsync = isAsyncFunction(target);
+	const replacementMethod = function replacementMethod(this: unknown, ...args: unknown[]) {
+		// The global configuration is read per call, so it can change after the step is defined
+		const config = getStepConfig();
+		const options = mergeStepOptions(config.defaults, ownOptions);
+		const runsSync = options.sync === true && !isAsync;
+		const title = formatStepTitle(this, args, target, stepTarget, description, options, config);
+		const keywordTitle = options.keyword ? `${options.keyword} ${title}` : title;
+		const formattedDescription = (config.titlePrefix ?? "") + keywordTitle;
+
+		// Capture the call site location for accurate reporting
+		const location = captureCallSiteLocation(replacementMethod);
+		const stepOptions = { box: options.box, timeout: options.timeout, location };
+		const className = getClassName(this, stepTarget);
+		const stepName = className ? `${className}.${stepTarget.name}` : stepTarget.name;
+		const addErrorContext = (error: unknown, parent: StepContext | undefined) => {
+			if (config.enrichErrors === false) return error;
+			return enrichStepError(error, () => ({
+				breadcrumb: getBreadcrumb(stepName, parent),
+				title: formattedDescription,
+				arguments: toNamedArguments(getFunctionParameters(target), args, options),
+			}));
+		};
+		const recordKeywordStep = (parent: StepContext | undefined) =>
+			options.keyword
+				? recordScenarioStep({
+						keyword: options.keyword,
+						title: keywordTitle,
+						depth: getKeywordDepth(parent),
+						status: "passed",
+					})
+				: undefined;
+		const recordStepStart = async (stepInfo: TestStepInfo) => {
+			annotateTest(options);
+			if (!config.recordStepMetadata) return;
+			await attachStepMetadata(stepInfo, {
+				className,
+				methodName: stepTarget.name,
+				keyword: options.keyword,
+				titleTemplate:
+					typeof description === "function"
+						? undefined
+						: (description ?? config.titleTemplate ?? DEFAULT_TITLE_TEMPLATE),
+				title: formattedDescription,
+				arguments: toNamedArguments(getFunctionParameters(target), args, options),
+				tags: options.tags?.length ? options.tags : undefined,
+				requirements: options.requirements?.length ? options.requirements : undefined,
+			});
+		};
+
+		const runStep = (): unknown => {
+			if (runsSync) {
+				const parent = stepContextStorage.getStore();
+				const scenarioStep = recordKeywordStep(parent);
+				return runSyncStep(formattedDescription, stepOptions, recordStepStart, stepInfo => {
+					const stepContext: StepContext | undefined = stepInfo && {
+						instance: this,
+						stepInfo,
+						name: stepName,
+						keyword: options.keyword,
+						parent,
+					};
+					try {
+						return stepContext
+							? stepContextStorage.run(stepContext, () => target.call(this, ...args))
+							: target.call(this, ...args);
+					} catch (error) {
+						failScenarioStep(scenarioStep, error);
+						throw addErrorContext(error, parent);
+					}
+				});
+			}
+			let skipped: { result: unknown } | undefined;
+			const reportedStep = test.step(
 				formattedDescription,
-				async step => {
-					(this as Record<symbol, unknown>)[StepSymbol] = step;
+				async stepInfo => {
+					const parent = stepContextStorage.getStore();
+					const stepContext: StepContext = {
+						instance: this,
+						stepInfo,
+						name: stepName,
+						keyword: options.keyword,
+						parent,
+					};
+					const scenarioStep = recordKeywordStep(parent);
+					const runBody = async () => stepContextStorage.run(stepContext, () => target.call(this, ...args));
+					// Attempts run in their own child step, so step info and attachments inside them belong to that step
+					const runAttempt = async (attemptInfo: TestStepInfo) =>
+						stepContextStorage.run({ ...stepContext, stepInfo: attemptInfo }, () => target.call(this, ...args));
 					try {
-						return await target.call(this, ...args);
+						await recordStepStart(stepInfo);
+						if (options.skipIf && (await stepContextStorage.run(stepContext, () => options.skipIf?.(this, ...args)))) {
+							skipped = { result: await options.skipFallback?.(this, ...args) };
+							if (scenarioStep) scenarioStep.status = "skipped";
+							// Marks the step as skipped and ends it without running the body
+							stepInfo.skip(true, options.reason);
+						}
+						const event: StepEvent = {
+							className,
+							methodName: stepTarget.name,
+							title: formattedDescription,
+							args,
+							stepInfo,
+						};
+						return await stepContextStorage.run(stepContext, () =>
+							runWithPlugins(event, async () => {
+								const attachValues = async (outcome?: { result: unknown }) => {
+									if (!options.attachValues) return;
+									await attachStepValues(stepInfo, getFunctionParameters(target), args, outcome, {
+										...options,
+										attachValues: options.attachValues,
+									});
+								};
+								let result: unknown;
+								try {
+									result = options.retry
+										? await runWithRetry(formattedDescription, runAttempt, options.retry, location)
+										: await runBody();
+								} catch (caught) {
+									// Skipping the step from its body ends it as skipped, not as failed
+									if (isStepSkipError(caught)) throw caught;
+									const error = addErrorContext(caught, parent);
+									if (options.captureOnFailure) {
+										await captureFailureEvidence(stepInfo, this, error, options.captureOnFailure);
+									}
+									await attachValues();
+									// Plugins receive the error with the decorator frames already removed
+									throw filterErrorStack(error);
+								}
+								await attachValues({ result });
+								return result;
+							})
+						);
 					} catch (error) {
-						if (error instanceof Error && error.stack) {
-							error.stack = filterDecoratorFrames(error.stack);
+						// Skipping a step throws as well, to end it without running the body
+						if (skipped || isStepSkipError(error)) {
+							if (scenarioStep) scenarioStep.status = "skipped";
+							throw error;
 						}
-						throw error;
-					} finally {
-						delete (this as Record<symbol, unknown>)[StepSymbol];
+						failScenarioStep(scenarioStep, error);
+						throw filterErrorStack(error);
 					}
 				},
-				{ location }
+				stepOptions
 			);
+			return options.skipIf ? reportedStep.then(result => (skipped ? skipped.result : result)) : reportedStep;
+		};
+		if (!options.soft) {
+			return runStep();
+		}
+
+		// Soft steps fail the test without stopping it and resolve to `undefined` when they fail
+		const recordFailure = (error: unknown) => {
+			// Skipping the test throws as well, which has to end the test instead of failing the step
+			if (isTestSkipError(error)) throw error;
+			recordSoftStepFailure({ title: formattedDescription, error, location });
 		};
+		try {
+			const result = runStep();
+			return isPromiseLike(result) ? Promise.resolve(result).catch(recordFailure) : result;
+		} catch (error) {
+			recordFailure(error);
+			return undefined;
+		}
 	};
+	stepMethods.add(replacementMethod);
+	return replacementMethod;
 }
 
 /**
- * Retrieves the `TestStepInfo` associated with the given Step Decorator.
- *
- * This function expects the instance to have a step context stored under the `StepSymbol` property.
- * If the step context is not found, it throws an error indicating that the method should be decorated with `@step`.
- *
- * @param instance - The object instance from which to retrieve the step context.
- * @returns The `TestStepInfo` associated with the instance.
- * @throws {Error} If no Playwright step context is found on the instance.
+ * Resolves the title of a step, without the configured `titlePrefix` and the Gherkin keyword.
  */
-export function getStepInfo(instance: unknown): TestStepInfo {
-	const step = (instance as Record<symbol, unknown>)[StepSymbol];
-	if (!step) {
-		throw new Error("No Playwright step context found. Make sure this method is decorated with @step.");
+function formatStepTitle(
+	instance: unknown,
+	args: unknown[],
+	target: StepBody,
+	stepTarget: StepTarget,
+	description: StepTitle | undefined,
+	options: StepOptions,
+	config: Readonly<StepConfig>
+): string {
+	const className = getClassName(instance, stepTarget);
+	const methodName = stepTarget.method ? `${className}.${stepTarget.name}` : stepTarget.name;
+	if (typeof description === "function") {
+		return description.call(instance, ...args);
+	}
+
+	const placeholderErrors = config.placeholderErrors ?? "throw";
+	const parameters = getFunctionParameters(target);
+	const template = parseTitle(
+		methodName,
+		description ?? config.titleTemplate ?? DEFAULT_TITLE_TEMPLATE,
+		placeholderErrors
+	);
+
+	const missingParams = findMissingParams(template, parameters);
+	if (missingParams.length > 0 && placeholderErrors === "throw") {
+		throw new Error(
+			`Missing function parameters (${missingParams.join(", ")}) in method '${methodName}'. Please check your @step decorator placeholders.`
+		);
 	}
-	return step as TestStepInfo;
+
+	const title = formatDescription(
+		template,
+		{ instance, className, methodName: stepTarget.name, parameters, args },
+		{ ...options, placeholderErrors }
+	);
+	return description ? title : (stepTarget.titlePrefix ?? "") + title;
 }
 
 /**
- * Captures the call site location from the stack trace.
- *
- * This function parses the Error stack to find the location where the decorated method
- * was called (not where the decorator is defined). This location is used by Playwright
- * to display accurate source locations in test reports and trace viewer.
- *
- * @returns Location object with file, line, and column, or undefined if parsing fails
+ * Returns the names of the running decorated steps, outermost first, ending with the given step.
  */
-function captureCallSiteLocation(): { file: string; line: number; column: number } | undefined {
-	const stack = new Error().stack;
-	if (!stack) return undefined;
+function getBreadcrumb(stepName: string, parent: StepContext | undefined): string[] {
+	const names = [stepName];
+	for (let context = parent; context; context = context.parent) {
+		names.unshift(context.name);
+	}
+	return names;
+}
 
-	const lines = stack.split("\n");
-	const ignoredFragments = [
-		"node:internal",
-		"/node_modules/",
-		"/node_modules/playwright-step-decorator/",
-		"/packages/playwright-step-decorator/",
-		"/playwright-step-decorator.ts",
-		"/playwright-step-decorator.js",
-		"/playwright-step-decorator.cjs",
-		"/playwright-step-decorator.mjs",
-		"/src/playwright-step-decorator",
-		"/dist/playwright-step-decorator",
-	];
-	// Skip the first few stack frames:
-	// 0: Error
-	// 1: captureCallSiteLocation
-	// 2: replacementMethod (the decorator wrapper)
-	// 3: actual call site (what we want)
-	for (let i = 3; i < lines.length; i++) {
-		const line = lines[i];
-		// Match common stack trace formats:
-		// at ClassName.methodName (file:line:column)
-		// at file:line:column
-		// at async ClassName.methodName (file:line:column)
-		const match = line.match(/\((.+):(\d+):(\d+)\)$/) || line.match(/at\s+(.+):(\d+):(\d+)$/);
-		if (match) {
-			const [, file, lineNum, col] = match;
-			const normalizedFile = normalizeStackPath(file);
-			// Filter out Node.js internals and the decorator module itself
-			if (!ignoredFragments.some(fragment => normalizedFile.includes(fragment))) {
-				return {
-					file: normalizedFile,
-					line: parseInt(lineNum, 10),
-					column: parseInt(col, 10),
-				};
-			}
-		}
+/**
+ * Returns the number of running Gherkin steps the current step was called from.
+ */
+function getKeywordDepth(parent: StepContext | undefined): number {
+	let depth = 0;
+	for (let context = parent; context; context = context.parent) {
+		if (context.keyword) depth++;
 	}
-	return undefined;
+	return depth;
 }
 
-function normalizeStackPath(value: string): string {
-	let result = value.trim();
-	result = result.replace(/^file:\/\//, "");
-	result = result.replace(/^(webpack|vite|rollup):\/\//, "");
-	result = result.replace(/\\/g, "/");
-	return result;
+function getClassName(instance: unknown, stepTarget: StepTarget): string {
+	return stepTarget.method ? (instance as { constructor: { name: string } }).constructor.name : "";
 }
 
-function extractFunctionParamNames(target: Function): string[] {
-	const fnStr = target.toString();
-	const match = fnStr.match(/^[\s\S]*?\(([^)]*)\)/);
-	if (!match) return [];
-	return match[1]
-		.split(",")
-		.map(param => param.trim())
-		.filter(param => param.length > 0);
+/**
+ * Parses a description. Unless placeholder errors throw, an invalid description is used as it is written.
+ */
+function parseTitle(
+	methodName: string,
+	description: string,
+	placeholderErrors: PlaceholderErrorMode
+): DescriptionTemplate {
+	try {
+		return parseDescription(methodName, description);
+	} catch (error) {
+		if (placeholderErrors === "throw" || !(error instanceof Error)) throw error;
+		if (placeholderErrors === "warn") console.warn(error.message);
+		return [description];
+	}
 }
 
-function getPlaceholders(description: string): string[] {
-	const curlyMatches = Array.from(description.matchAll(/\{\{(.*?)\}\}/g)).map(m => m[1]);
-	const squareMatches = Array.from(description.matchAll(/\[\[(\d+)\]\]/g)).map(m => `[[${m[1]}]]`);
-	return [...curlyMatches, ...squareMatches];
+/**
+ * Merges step options over defaults, ignoring options that are `undefined`.
+ */
+function mergeStepOptions(defaults: StepOptions | undefined, options: StepOptions): StepOptions {
+	const merged: Record<string, unknown> = { ...defaults };
+	for (const [key, value] of Object.entries(options)) {
+		if (value !== undefined) merged[key] = value;
+	}
+	return merged as StepOptions;
 }
 
-function findMissingParams(placeholders: string[], paramNames: string[]): string[] {
-	return placeholders
-		.filter(ph => !ph.startsWith("[["))
-		.map(ph => ph.split(".")[0])
-		.filter(param => !paramNames.includes(param));
+/**
+ * Runs synchronous code in a step and returns its result directly.
+ *
+ * Playwright calls the step body right away, so the code runs inside the step: steps it calls are nested below it
+ * and `getStepInfo` returns its info. The step finishes once the code has returned or thrown. Plugin hooks do not
+ * run for synchronous steps.
+ *
+ * @param onStart Called with the info of the reported step once it started, e.g. to record its metadata.
+ * @param body The code to run, called with the info of the step, or without it if the step could not be started
+ * (e.g. outside a test).
+ */
+function runSyncStep(
+	title: string,
+	stepOptions: { box?: boolean; timeout?: number; location?: { file: string; line: number; column: number } },
+	onStart: (stepInfo: TestStepInfo) => Promise<void>,
+	body: (stepInfo?: TestStepInfo) => unknown
+): unknown {
+	let outcome: { result: unknown } | { error: unknown } | undefined;
+	const run = (stepInfo?: TestStepInfo) => {
+		// A step body called after the step returned gets the outcome of the body that already ran
+		if (outcome) return outcome;
+		try {
+			outcome = { result: body(stepInfo) };
+		} catch (error) {
+			outcome = { error: filterErrorStack(error) };
+		}
+		return outcome;
+	};
+	const reportedStep = test.step(
+		title,
+		async stepInfo => {
+			const started = onStart(stepInfo);
+			const stepOutcome = run(stepInfo);
+			await started;
+			if ("error" in stepOutcome) throw stepOutcome.error;
+			return stepOutcome.result;
+		},
+		stepOptions
+	);
+	// Errors are thrown to the caller directly, the reported step only marks the step as failed
+	reportedStep.catch(() => undefined);
+
+	const settled = outcome ?? run();
+	if ("error" in settled) throw settled.error;
+	// Code that returns a promise finishes the step when the promise settles
+	return isPromiseLike(settled.result) ? reportedStep : settled.result;
 }
 
-function formatDescription(
-	methodName: string,
-	description: string,
-	placeholders: string[],
-	paramNames: string[],
-	args: unknown[]
-): string {
-	let result = description;
-	for (const placeholder of placeholders) {
-		if (placeholder.startsWith("[[") && placeholder.endsWith("]]")) {
-			const index = parseInt(placeholder.slice(2, -2), 10);
-			if (isNaN(index) || index < 0 || index >= args.length) {
-				throw new Error(
-					`Parameter index '${index}' is out of bounds in method '${methodName}'. ` +
-						`This method received ${args.length} argument(s), but the @step decorator references index ${index}. ` +
-						`Please check your @step decorator placeholders.`
-				);
-			}
-			result = result.replace(`[[${index}]]`, String(args[index]));
-		} else {
-			const parts = placeholder.split(".");
-			const paramIndex = paramNames.indexOf(parts[0]);
-			let value = args[paramIndex];
-
-			for (let i = 1; i < parts.length; i++) {
-				if (value && typeof value === "object" && parts[i] in value) {
-					value = (value as Record<string, unknown>)[parts[i]];
-				} else {
-					throw new Error(
-						`Invalid @step placeholder '{{${placeholder}}}' in method '${methodName}': ` +
-							`Property '${parts[i]}' does not exist on parameter '${parts[0]}'. ` +
-							`Please check your @step decorator placeholders.`
-					);
-				}
-			}
+function isAsyncFunction(fn: Function): boolean {
+	return Object.prototype.toString.call(fn) === "[object AsyncFunction]";
+}
+
+function matchesMethodName(name: string, patterns: Array<string | RegExp>): boolean {
+	return patterns.some(pattern => {
+		if (typeof pattern === "string") return pattern === name;
+		// A global or sticky RegExp continues from the `lastIndex` of its previous match
+		pattern.lastIndex = 0;
+		return pattern.test(name);
+	});
+}
 
-			result = result.replace(`{{${placeholder}}}`, String(value));
+/**
+ * Retrieves the `TestStepInfo` associated with the given Step Decorator.
+ *
+ * The step context is tracked per async call chain, so parallel and nested decorated calls on the same instance
+ * each receive their own step. The innermost step that was started by a decorated method of `instance` is returned.
+ * If no such step is found, it throws an error indicating that the method should be decorated with `@step`.
+ *
+ * @param instance - The object instance from which to retrieve the step context.
+ * @returns The `TestStepInfo` associated with the instance.
+ * @throws {Error} If no Playwright step context is found for the instance.
+ */
+export function getStepInfo(instance: unknown): TestStepInfo {
+	for (let context = stepContextStorage.getStore(); context; context = context.parent) {
+		if (context.instance === instance) {
+			return context.stepInfo;
 		}
 	}
-	return result;
+	throw new Error("No Playwright step context found. Make sure this method is decorated with @step.");
+}
+
+/**
+ * Retrieves the `TestStepInfo` of the innermost decorated step in the current async call chain.
+ *
+ * Unlike `getStepInfo`, no instance is needed, so helper functions called from inside a step can use it as well.
+ *
+ * @returns The `TestStepInfo` of the currently running decorated step.
+ * @throws {Error} If called outside of a method decorated with `@step`.
+ */
+export function getCurrentStepInfo(): TestStepInfo {
+	const context = stepContextStorage.getStore();
+	if (!context) {
+		throw new Error("No Playwright step context found. Make sure this is called from within a @step decorated method.");
+	}
+	return context.stepInfo;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+	return typeof (value as PromiseLike<unknown> | undefined)?.then === "function";
+}
+
+function filterErrorStack(error: unknown): unknown {
+	if (error instanceof Error && error.stack) {
+		error.stack = filterDecoratorFrames(error.stack);
+	}
+	return error;
 }
 
 function filterDecoratorFrames(stack: string): string {
 	const lines = stack.split("\n");
-	const filtered = lines.filter(line => !line.includes("playwright-step-decorator"));
+	const fragments = getStepConfig().stackFilterFragments ?? DEFAULT_STACK_FILTER_FRAGMENTS;
+	const filtered = lines.filter(line => !fragments.some(fragment => line.includes(fragment)));
 	return filtered.join("\n");
 }
@@ -0,0 +1,166 @@
+import { TestStepInfo } from "@playwright/test";
+
+import { isStepSkipError } from "./skip-errors";
+
+/**
+ * Describes a decorated step that is about to run.
+ */
+export interface StepEvent {
+	/**
+	 * The class name of the decorated method, or an empty string for functions wrapped with `withStep`.
+	 */
+	className: string;
+	/**
+	 * The name of the decorated method or wrapped function.
+	 */
+	methodName: string;
+	/**
+	 * The resolved step title as shown in the report.
+	 */
+	title: string;
+	/**
+	 * The arguments the step was called with.
+	 */
+	args: ReadonlyArray<unknown>;
+	/**
+	 * The `TestStepInfo` of the running step, e.g. to add attachments to it.
+	 */
+	stepInfo: TestStepInfo;
+}
+
+/**
+ * Describes a decorated step that finished, passed to `afterStep` hooks.
+ */
+export interface StepEndEvent extends StepEvent {
+	/**
+	 * Whether the step returned, threw, or was skipped from its body with `stepInfo.skip()`.
+	 */
+	status: "passed" | "failed" | "skipped";
+	/**
+	 * The return value of a passed step.
+	 */
+	result?: unknown;
+	/**
+	 * The error of a failed step.
+	 */
+	error?: unknown;
+	/**
+	 * The time in milliseconds the step took, including retries.
+	 */
+	duration: number;
+}
+
+/**
+ * Describes a decorated step that threw, passed to `onStepError` hooks.
+ */
+export interface StepErrorEvent extends StepEvent {
+	error: unknown;
+	duration: number;
+}
+
+/**
+ * Hooks around every decorated step, registered with `registerStepPlugin`.
+ *
+ * Hooks run inside the Playwright step and are awaited in the order the plugins were registered. An error thrown by
+ * a hook fails the step. Skipped steps and synchronous steps (`sync: true`) do not run hooks.
+ *
+ * @example
+ * ```typescript
+ * registerStepPlugin({
+ *   name: "timing",
+ *   afterStep: ({ title, duration }) => console.log(`${title} took ${duration}ms`),
+ * });
+ * ```
+ */
+export interface StepPlugin {
+	/**
+	 * Identifies the plugin. Registering a plugin with the same name replaces the previous one.
+	 */
+	name: string;
+	/**
+	 * Runs before the decorated method.
+	 */
+	beforeStep?(event: StepEvent): void | Promise<void>;
+	/**
+	 * Runs after the decorated method, whether it passed or failed.
+	 */
+	afterStep?(event: StepEndEvent): void | Promise<void>;
+	/**
+	 * Runs when the decorated method throws, before `afterStep`.
+	 */
+	onStepError?(event: StepErrorEvent): void | Promise<void>;
+}
+
+const registeredPlugins: Array<StepPlugin> = [];
+
+/**
+ * Registers a plugin whose hooks run around every decorated step.
+ *
+ * @param plugin The plugin to register. A plugin registered earlier with the same name is replaced.
+ * @returns A function that unregisters the plugin again, e.g. at the end of a fixture.
+ */
+export function registerStepPlugin(plugin: StepPlugin): () => void {
+	unregisterStepPlugin(plugin.name);
+	registeredPlugins.push(plugin);
+	return () => {
+		const index = registeredPlugins.indexOf(plugin);
+		if (index !== -1) registeredPlugins.splice(index, 1);
+	};
+}
+
+/**
+ * Removes the plugin with the given name.
+ */
+export function unregisterStepPlugin(name: string): void {
+	const index = registeredPlugins.findIndex(plugin => plugin.name === name);
+	if (index !== -1) registeredPlugins.splice(index, 1);
+}
+
+/**
+ * Removes all plugins added with `registerStepPlugin`.
+ */
+export function resetStepPlugins(): void {
+	registeredPlugins.length = 0;
+}
+
+/**
+ * Runs a step body between the hooks of the registered plugins.
+ */
+export async function runWithPlugins<T>(event: StepEvent, body: () => Promise<T>): Promise<T> {
+	// Plugins registered while the step runs only apply to later steps
+	const plugins = [...registeredPlugins];
+	if (plugins.length === 0) {
+		return body();
+	}
+
+	const start = Date.now();
+	for (const plugin of plugins) {
+		await plugin.beforeStep?.(event);
+	}
+
+	let result: T;
+	try {
+		result = await body();
+	} catch (error) {
+		const duration = Date.now() - start;
+		if (isStepSkipError(error)) {
+			for (const plugin of plugins) {
+				await plugin.afterStep?.({ ...event, status: "skipped", duration });
+			}
+			throw error;
+		}
+		for (const plugin of plugins) {
+			await plugin.onStepError?.({ ...event, error, duration });
+		}
+		for (const plugin of plugins) {
+			await plugin.afterStep?.({ ...event, status: "failed", error, duration });
+		}
+		throw error;
+	}
+
+	const duration = Date.now() - start;
+	for (const plugin of plugins) {
+		await plugin.afterStep?.({ ...event, status: "passed", result, duration });
+	}
+	return result;
+}
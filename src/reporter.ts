@@ -0,0 +1,372 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+
+import type { FullConfig, Location, Reporter, TestCase, TestResult, TestStep } from "@playwright/test/reporter";
+
+import { readStepMetadata, StepMetadata } from "./step-metadata";
+
+/**
+ * Options of the step tree reporter, set in the `reporter` option of the Playwright config.
+ */
+export interface StepTreeReporterOptions {
+	/**
+	 * The folder the report is written to, relative to the config file. Defaults to `step-report`.
+	 */
+	outputFolder?: string;
+	/**
+	 * Whether to write the step tree as JSON to `steps.json`. Defaults to `true`.
+	 */
+	json?: boolean;
+	/**
+	 * Whether to write the step tree as Markdown to `steps.md`. Defaults to `true`.
+	 */
+	markdown?: boolean;
+	/**
+	 * Whether to write the requirement coverage to `requirements.json` and `requirements.md`, in the formats enabled
+	 * with `json` and `markdown`. Only written if a step has `requirements`. Defaults to `true`.
+	 */
+	requirements?: boolean;
+}
+
+/**
+ * A decorated step in the step tree, with the decorated steps it ran nested below it.
+ */
+export interface StepTreeNode extends StepMetadata {
+	status: "passed" | "failed" | "skipped";
+	/**
+	 * The time in milliseconds the step took.
+	 */
+	duration: number;
+	/**
+	 * The location the step was called from, with the file relative to the root directory of the config.
+	 */
+	location?: Location;
+	/**
+	 * The attachments of the step, without their content.
+	 */
+	attachments: Array<{ name: string; contentType: string; path?: string }>;
+	/**
+	 * The first line of the error of a failed step.
+	 */
+	error?: string;
+	steps: StepTreeNode[];
+}
+
+/**
+ * A run of a test with the decorated steps it ran.
+ */
+export interface StepTreeTest {
+	title: string;
+	/**
+	 * The titles of the describe blocks and the test, without the project and the file.
+	 */
+	titlePath: string[];
+	project: string;
+	/**
+	 * The test file, relative to the root directory of the config.
+	 */
+	file: string;
+	line: number;
+	status: TestResult["status"];
+	duration: number;
+	retry: number;
+	steps: StepTreeNode[];
+}
+
+/**
+ * The content of `steps.json`.
+ */
+export interface StepTreeReport {
+	tests: StepTreeTest[];
+}
+
+/**
+ * A decorated step that verified a requirement.
+ */
+export interface RequirementStep {
+	title: string;
+	className: string;
+	methodName: string;
+	status: StepTreeNode["status"];
+	location?: Location;
+}
+
+/**
+ * A test whose decorated steps verified a requirement, with those steps.
+ */
+export interface RequirementTest {
+	title: string;
+	titlePath: string[];
+	project: string;
+	file: string;
+	line: number;
+	status: StepTreeTest["status"];
+	steps: RequirementStep[];
+}
+
+/**
+ * The tests and steps that verified a requirement.
+ */
+export interface RequirementCoverage {
+	requirement: string;
+	/**
+	 * `failed` if one of the steps failed, `passed` if none failed and at least one passed, `skipped` otherwise.
+	 */
+	status: "passed" | "failed" | "skipped";
+	tests: RequirementTest[];
+}
+
+/**
+ * The content of `requirements.json`.
+ */
+export interface TraceabilityReport {
+	requirements: RequirementCoverage[];
+}
+
+/**
+ * A Playwright reporter writing the tree of decorated steps of every test as JSON and Markdown.
+ *
+ * Only steps created by `@step`, `withStep` and the other decorators of this package are included; they are told apart
+ * from plain `test.step` calls, expectations and Playwright API calls by the metadata they record. Decorated steps
+ * nested in other steps are moved up to the closest decorated step. Tests are sorted by file, line, project and retry,
+ * so the reports of two runs can be compared.
+ *
+ * When steps have `requirements`, the tests and steps verifying each requirement are written to `requirements.json`
+ * and `requirements.md` as well.
+ *
+ * Steps only record their metadata with `recordStepMetadata: true` in the step configuration of the test workers.
+ *
+ * @example
+ * ```typescript
+ * // playwright.config.ts
+ * export default defineConfig({
+ *   reporter: [["html"], ["@cerios/playwright-step-decorator/reporter", { outputFolder: "step-report" }]],
+ * });
+ *
+ * // fixtures.ts
+ * configureSteps({ recordStepMetadata: true });
+ * ```
+ */
+export class StepTreeReporter implements Reporter {
+	private readonly tests: StepTreeTest[] = [];
+	private outputFolder = "";
+	private rootDir = "";
+
+	constructor(private readonly options: StepTreeReporterOptions = {}) {}
+
+	onBegin(config: FullConfig): void {
+		const configDir = config.configFile ? dirname(config.configFile) : config.rootDir;
+		this.outputFolder = resolve(configDir, this.options.outputFolder ?? "step-report");
+		this.rootDir = config.rootDir;
+	}
+
+	onTestEnd(test: TestCase, result: TestResult): void {
+		const [, project = "", , ...titlePath] = test.titlePath();
+		this.tests.push({
+			title: test.title,
+			titlePath,
+			project,
+			file: this.relativePath(test.location.file),
+			line: test.location.line,
+			status: result.status,
+			duration: result.duration,
+			retry: result.retry,
+			steps: this.toStepTree(result.steps),
+		});
+	}
+
+	async onEnd(): Promise<void> {
+		const tests = [...this.tests].sort(
+			(a, b) =>
+				a.file.localeCompare(b.file) || a.line - b.line || a.project.localeCompare(b.project) || a.retry - b.retry
+		);
+		const report: StepTreeReport = { tests };
+
+		await mkdir(this.outputFolder, { recursive: true });
+		if (this.options.json ?? true) {
+			await writeFile(resolve(this.outputFolder, "steps.json"), JSON.stringify(report, null, 2));
+		}
+		if (this.options.markdown ?? true) {
+			await writeFile(resolve(this.outputFolder, "steps.md"), formatStepTreeMarkdown(report));
+		}
+
+		const traceability = buildTraceabilityReport(tests);
+		if ((this.options.requirements ?? true) && traceability.requirements.length > 0) {
+			if (this.options.json ?? true) {
+				await writeFile(resolve(this.outputFolder, "requirements.json"), JSON.stringify(traceability, null, 2));
+			}
+			if (this.options.markdown ?? true) {
+				await writeFile(resolve(this.outputFolder, "requirements.md"), formatTraceabilityMarkdown(traceability));
+			}
+		}
+	}
+
+	printsToStdio(): boolean {
+		return false;
+	}
+
+	/**
+	 * Converts reported steps to decorated step nodes, moving decorated steps below other steps up a level.
+	 */
+	private toStepTree(steps: ReadonlyArray<TestStep>): StepTreeNode[] {
+		return steps.flatMap(step => {
+			const metadata = readStepMetadata(step);
+			if (!metadata) return this.toStepTree(step.steps);
+
+			const node: StepTreeNode = {
+				...metadata,
+				status: step.error ? "failed" : step.annotations.some(({ type }) => type === "skip") ? "skipped" : "passed",
+				duration: step.duration,
+				location: step.location && { ...step.location, file: this.relativePath(step.location.file) },
+				attachments: step.attachments
+					.filter(({ name }) => !name.startsWith("_"))
+					.map(({ name, contentType, path }) => ({ name, contentType, path })),
+				error: step.error && firstLine(step.error.message ?? step.error.value ?? ""),
+				steps: this.toStepTree(step.steps),
+			};
+			return [node];
+		});
+	}
+
+	private relativePath(file: string): string {
+		return relative(this.rootDir, file).replace(/\\/g, "/");
+	}
+}
+
+/**
+ * Formats a step tree report as a Markdown document with a section per test run and a nested list of its steps.
+ */
+export function formatStepTreeMarkdown(report: StepTreeReport): string {
+	const lines = ["# Decorated Steps", ""];
+	for (const test of report.tests) {
+		const retry = test.retry > 0 ? ` (retry ${test.retry})` : "";
+		lines.push(`## ${[test.file, ...test.titlePath].join(" › ")}${retry}`, "");
+		const project = test.project ? `Project: ${test.project} · ` : "";
+		lines.push(`${project}Status: ${test.status} · Duration: ${test.duration} ms`, "");
+		if (test.steps.length === 0) {
+			lines.push("No decorated steps.", "");
+			continue;
+		}
+		lines.push(...test.steps.flatMap(node => formatStepNode(node, "")), "");
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Maps the requirements of decorated steps to the tests and steps that verified them.
+ *
+ * Only the last run of each test is used, so a test that passed on retry counts as passed. Requirements are sorted
+ * by ID.
+ */
+export function buildTraceabilityReport(tests: ReadonlyArray<StepTreeTest>): TraceabilityReport {
+	const coverage = new Map<string, RequirementTest[]>();
+	for (const test of getLastRuns(tests)) {
+		const stepsByRequirement = new Map<string, RequirementStep[]>();
+		forEachStep(test.steps, node => {
+			for (const requirement of node.requirements ?? []) {
+				const steps = stepsByRequirement.get(requirement) ?? [];
+				const { title, className, methodName, status, location } = node;
+				steps.push({ title, className, methodName, status, location });
+				stepsByRequirement.set(requirement, steps);
+			}
+		});
+		for (const [requirement, steps] of stepsByRequirement) {
+			const { title, titlePath, project, file, line, status } = test;
+			const requirementTests = coverage.get(requirement) ?? [];
+			requirementTests.push({ title, titlePath, project, file, line, status, steps });
+			coverage.set(requirement, requirementTests);
+		}
+	}
+
+	const requirements = [...coverage.entries()]
+		.sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+		.map(([requirement, requirementTests]): RequirementCoverage => {
+			const statuses = requirementTests.flatMap(({ steps }) => steps.map(({ status }) => status));
+			const status = statuses.includes("failed") ? "failed" : statuses.includes("passed") ? "passed" : "skipped";
+			return { requirement, status, tests: requirementTests };
+		});
+	return { requirements };
+}
+
+/**
+ * Formats a traceability report as a Markdown document with a summary table and a section per requirement.
+ */
+export function formatTraceabilityMarkdown(report: TraceabilityReport): string {
+	const lines = ["# Requirement Coverage", "", "| Requirement | Status | Tests | Steps |", "| --- | --- | --- | --- |"];
+	for (const { requirement, status, tests } of report.requirements) {
+		const steps = tests.reduce((count, test) => count + test.steps.length, 0);
+		lines.push(`| ${requirement} | ${status} | ${tests.length} | ${steps} |`);
+	}
+	lines.push("");
+
+	for (const { requirement, status, tests } of report.requirements) {
+		lines.push(`## ${requirement}`, "", `Status: ${status}`, "");
+		for (const test of tests) {
+			const project = test.project ? ` (${test.project})` : "";
+			lines.push(`- ${[test.file, ...test.titlePath].join(" › ")}${project} · ${test.status}`);
+			for (const step of test.steps) {
+				const name = step.className ? `${step.className}.${step.methodName}` : step.methodName;
+				const location = step.location ? ` · ${step.location.file}:${step.location.line}` : "";
+				lines.push(`  - **${escapeMarkdown(step.title)}** \`${name}\` · ${step.status}${location}`);
+			}
+		}
+		lines.push("");
+	}
+	return lines.join("\n");
+}
+
+function formatStepNode(node: StepTreeNode, indent: string): string[] {
+	const name = node.className ? `${node.className}.${node.methodName}` : node.methodName;
+	const location = node.location ? ` · ${node.location.file}:${node.location.line}` : "";
+	const lines = [
+		`${indent}- **${escapeMarkdown(node.title)}** \`${name}\` · ${node.status} · ${node.duration} ms${location}`,
+	];
+	const detailIndent = `${indent}  `;
+	if (Object.keys(node.arguments).length > 0) {
+		lines.push(`${detailIndent}- Arguments: \`${JSON.stringify(node.arguments).replace(/`/g, "'")}\``);
+	}
+	if (node.tags?.length) {
+		lines.push(`${detailIndent}- Tags: ${node.tags.map(escapeMarkdown).join(", ")}`);
+	}
+	if (node.requirements?.length) {
+		lines.push(`${detailIndent}- Requirements: ${node.requirements.map(escapeMarkdown).join(", ")}`);
+	}
+	if (node.error) {
+		lines.push(`${detailIndent}- Error: ${escapeMarkdown(node.error)}`);
+	}
+	for (const attachment of node.attachments) {
+		lines.push(`${detailIndent}- Attachment: ${escapeMarkdown(attachment.name)} (${attachment.contentType})`);
+	}
+	return [...lines, ...node.steps.flatMap(child => formatStepNode(child, detailIndent))];
+}
+
+function firstLine(text: string): string {
+	// oxlint-disable-next-line no-control-regex
+	return text.replace(/\u001b\[[0-9;]*m/g, "").split("\n")[0];
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/([\\`*_[\]<>|])/g, "\\$1");
+}
+
+/**
+ * Returns the last run of every test, leaving out the runs that were retried.
+ */
+function getLastRuns(tests: ReadonlyArray<StepTreeTest>): StepTreeTest[] {
+	const lastRuns = new Map<string, StepTreeTest>();
+	for (const test of tests) {
+		const key = JSON.stringify([test.file, test.line, test.project, test.titlePath]);
+		const previous = lastRuns.get(key);
+		if (!previous || test.retry > previous.retry) lastRuns.set(key, test);
+	}
+	return [...lastRuns.values()];
+}
+
+function forEachStep(nodes: ReadonlyArray<StepTreeNode>, callback: (node: StepTreeNode) => void): void {
+	for (const node of nodes) {
+		callback(node);
+		forEachStep(node.steps, callback);
+	}
+}
+
+export default StepTreeReporter;
@@ -0,0 +1,36 @@
+import { test, TestInfo } from "@playwright/test";
+
+/**
+ * The type of the test annotations added for the `requirements` of a step.
+ */
+export const REQUIREMENT_ANNOTATION = "requirement";
+
+/**
+ * The type of the test annotations added for the `tags` of a step.
+ */
+export const TAG_ANNOTATION = "tag";
+
+/**
+ * Adds an annotation to the current test for each tag and requirement of a step, skipping annotations the test
+ * already has. Steps running outside a test add no annotations.
+ */
+export function annotateTest(step: { tags?: ReadonlyArray<string>; requirements?: ReadonlyArray<string> }): void {
+	const entries = [
+		...(step.tags ?? []).map(description => ({ type: TAG_ANNOTATION, description })),
+		...(step.requirements ?? []).map(description => ({ type: REQUIREMENT_ANNOTATION, description })),
+	];
+	if (entries.length === 0) return;
+
+	let testInfo: TestInfo;
+	try {
+		testInfo = test.info();
+	} catch {
+		return;
+	}
+	for (const entry of entries) {
+		const exists = testInfo.annotations.some(
+			({ type, description }) => type === entry.type && description === entry.description
+		);
+		if (!exists) testInfo.annotations.push(entry);
+	}
+}
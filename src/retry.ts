@@ -0,0 +1,104 @@
+import { test, TestStepInfo } from "@playwright/test";
+
+import { isStepSkipError } from "./skip-errors";
+
+/**
+ * The default wait times in milliseconds between attempts, the same as those of `expect(...).toPass()`.
+ */
+export const DEFAULT_RETRY_INTERVALS: ReadonlyArray<number> = [100, 250, 500, 1000];
+
+interface RetryBaseOptions {
+	/**
+	 * Wait times in milliseconds before each retry. The last interval is used for all further retries.
+	 * Defaults to `[100, 250, 500, 1000]`.
+	 */
+	intervals?: number[];
+	/**
+	 * Only retry when this returns `true` for the error of the failed attempt. Other errors fail the step right away.
+	 * Defaults to retrying every error.
+	 */
+	retryOn?: (error: unknown) => boolean;
+}
+
+/**
+ * Retries a step up to a fixed number of attempts.
+ */
+export interface RetryAttemptsOptions extends RetryBaseOptions {
+	/**
+	 * The maximum number of attempts, including the first one.
+	 */
+	attempts: number;
+}
+
+/**
+ * Retries a step until it passes or the total time runs out, like `expect(...).toPass()`.
+ */
+export interface RetryTimeoutOptions extends RetryBaseOptions {
+	/**
+	 * The total time in milliseconds after which no new attempt is started.
+	 */
+	timeout: number;
+}
+
+/**
+ * How a step is retried: bounded by a number of attempts or by a total time.
+ */
+export type StepRetryOptions = RetryAttemptsOptions | RetryTimeoutOptions;
+
+/**
+ * Thrown when every attempt of a retried step failed. `errors` holds the error of each attempt in order.
+ */
+export class StepRetryError extends Error {
+	readonly errors: ReadonlyArray<unknown>;
+
+	constructor(title: string, errors: unknown[]) {
+		const attempts = errors.map((error, index) => `  attempt ${index + 1}: ${describeError(error)}`);
+		super(`Step "${title}" failed after ${errors.length} attempt(s):\n${attempts.join("\n")}`);
+		this.name = "StepRetryError";
+		this.errors = errors;
+	}
+}
+
+/**
+ * Runs a step body until it passes, recording each attempt as a child step (`attempt 2/3`) with its error.
+ *
+ * @param body The step body, called with the info of the child step of the attempt.
+ * @throws {StepRetryError} If every attempt failed.
+ * @throws The error of an attempt for which `retryOn` returned `false`, and errors skipping the step.
+ */
+export async function runWithRetry<T>(
+	title: string,
+	body: (attemptInfo: TestStepInfo) => Promise<T>,
+	retry: StepRetryOptions,
+	location?: { file: string; line: number; column: number }
+): Promise<T> {
+	const intervals = retry.intervals?.length ? retry.intervals : DEFAULT_RETRY_INTERVALS;
+	const deadline = "timeout" in retry ? Date.now() + retry.timeout : undefined;
+	const maxAttempts = "attempts" in retry ? Math.max(1, retry.attempts) : undefined;
+	const errors: unknown[] = [];
+
+	for (let attempt = 1; ; attempt++) {
+		const attemptTitle = maxAttempts ? `attempt ${attempt}/${maxAttempts}` : `attempt ${attempt}`;
+		try {
+			return await test.step(attemptTitle, body, { location });
+		} catch (error) {
+			if (isStepSkipError(error) || (retry.retryOn && !retry.retryOn(error))) {
+				throw error;
+			}
+			errors.push(error);
+		}
+
+		const interval = intervals[Math.min(attempt - 1, intervals.length - 1)];
+		const outOfAttempts = maxAttempts !== undefined && attempt >= maxAttempts;
+		const outOfTime = deadline !== undefined && Date.now() + interval >= deadline;
+		if (outOfAttempts || outOfTime) {
+			throw new StepRetryError(title, errors);
+		}
+		await new Promise(resolve => setTimeout(resolve, interval));
+	}
+}
+
+function describeError(error: unknown): string {
+	const message = error instanceof Error ? error.message : String(error);
+	return message.split("\n")[0];
+}
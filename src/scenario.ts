@@ -0,0 +1,122 @@
+import { test, TestInfo } from "@playwright/test";
+
+/**
+ * The keywords of the Gherkin step decorators `Given`, `When`, `Then` and `And`.
+ */
+export type GherkinKeyword = "Given" | "When" | "Then" | "And";
+
+/**
+ * The name of the attachment created by `attachScenario`.
+ */
+export const SCENARIO_ATTACHMENT = "scenario";
+
+/**
+ * A Gherkin step run by the current test.
+ */
+export interface ScenarioStep {
+	keyword: GherkinKeyword;
+	/**
+	 * The step title including the keyword, e.g. `Given I am logged in as alice`.
+	 */
+	title: string;
+	/**
+	 * The number of Gherkin steps the step was called from.
+	 */
+	depth: number;
+	status: "passed" | "failed" | "skipped";
+	/**
+	 * The first line of the error of a failed step.
+	 */
+	error?: string;
+}
+
+const scenarioSteps = new WeakMap<TestInfo, ScenarioStep[]>();
+
+/**
+ * Records a Gherkin step of the current test as passed, returning it so its status can be changed once it ended.
+ * Steps running outside a test are not recorded.
+ */
+export function recordScenarioStep(step: ScenarioStep): ScenarioStep | undefined {
+	let testInfo: TestInfo;
+	try {
+		testInfo = test.info();
+	} catch {
+		return undefined;
+	}
+	const steps = scenarioSteps.get(testInfo) ?? [];
+	steps.push(step);
+	scenarioSteps.set(testInfo, steps);
+	return step;
+}
+
+/**
+ * Marks a recorded Gherkin step as failed with the given error.
+ */
+export function failScenarioStep(step: ScenarioStep | undefined, error: unknown): void {
+	if (!step) return;
+	step.status = "failed";
+	step.error = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+}
+
+/**
+ * Returns the Gherkin steps (`Given`, `When`, `Then` and `And`) a test ran so far, in the order they started.
+ *
+ * @param testInfo The test to return the steps of. Defaults to the current test.
+ */
+export function getScenarioSteps(testInfo: TestInfo = test.info()): ReadonlyArray<ScenarioStep> {
+	return scenarioSteps.get(testInfo) ?? [];
+}
+
+/**
+ * Formats the Gherkin steps of a test as a scenario, with the describe blocks of the test as the feature.
+ *
+ * Steps called from other Gherkin steps are indented below them, and failed and skipped steps are followed by a comment.
+ *
+ * @example
+ * ```text
+ * Feature: Checkout
+ *   Scenario: pays with a card
+ *     Given I am logged in as alice
+ *     When I pay with card 4111
+ *     Then the order is confirmed # failed: Timeout 5000ms exceeded.
+ * ```
+ */
+export function formatScenario(
+	testInfo: Pick<TestInfo, "title" | "titlePath">,
+	steps: ReadonlyArray<ScenarioStep>
+): string {
+	// The title path starts with the test file and ends with the test title
+	const feature = testInfo.titlePath.slice(1, -1).join(" › ");
+	const indent = feature ? "    " : "  ";
+	const lines = feature ? [`Feature: ${feature}`, `  Scenario: ${testInfo.title}`] : [`Scenario: ${testInfo.title}`];
+	for (const step of steps) {
+		const comment =
+			step.status === "failed" ? ` # failed: ${step.error ?? ""}` : step.status === "skipped" ? " # skipped" : "";
+		lines.push(`${indent}${"  ".repeat(step.depth)}${step.title}${comment}`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Attaches the Gherkin steps of a test as a scenario, if it ran any.
+ *
+ * Call it in an `afterEach` hook, so the scenario contains every step of the test.
+ *
+ * @param testInfo The test to describe. Defaults to the current test.
+ *
+ * @example
+ * ```typescript
+ * test.afterEach(async ({}, testInfo) => {
+ *   await attachScenario(testInfo);
+ * });
+ * ```
+ */
+export async function attachScenario(testInfo: TestInfo = test.info()): Promise<void> {
+	const steps = getScenarioSteps(testInfo);
+	if (steps.length === 0) return;
+
+	await testInfo.attach(SCENARIO_ATTACHMENT, {
+		body: formatScenario(testInfo, steps),
+		contentType: "text/plain",
+	});
+}
@@ -0,0 +1,126 @@
+const DEFAULT_MASK = "******";
+
+/**
+ * Key patterns whose values are masked by default in step titles.
+ */
+export const DEFAULT_SECRET_KEY_PATTERNS: ReadonlyArray<RegExp> = [/password/i, /token/i, /secret/i, /api[-_]?key/i];
+
+/**
+ * Options for `configureSecretMasking`.
+ */
+export interface SecretMaskingOptions {
+	/**
+	 * Key patterns whose values are masked in every interpolated title. Strings match a key case-insensitively.
+	 * Replaces the current patterns; spread `DEFAULT_SECRET_KEY_PATTERNS` to extend the defaults instead.
+	 */
+	keyPatterns?: Array<string | RegExp>;
+	/**
+	 * The text rendered in place of a secret value. Defaults to `******`.
+	 */
+	mask?: string;
+}
+
+let secretKeyPatterns: Array<string | RegExp> = [...DEFAULT_SECRET_KEY_PATTERNS];
+let secretMask = DEFAULT_MASK;
+
+/**
+ * Configures how secret values are recognized and masked.
+ *
+ * @param options The key patterns and mask text to use from now on.
+ *
+ * @example
+ * ```typescript
+ * configureSecretMasking({ keyPatterns: [...DEFAULT_SECRET_KEY_PATTERNS, "pin"], mask: "<hidden>" });
+ * ```
+ */
+export function configureSecretMasking(options: SecretMaskingOptions): void {
+	if (options.keyPatterns) {
+		secretKeyPatterns = [...options.keyPatterns];
+	}
+	if (options.mask !== undefined) {
+		secretMask = options.mask;
+	}
+}
+
+/**
+ * Wraps a sensitive value, so it is masked wherever the step decorator renders it.
+ *
+ * The wrapped value is only available through `reveal()`. Converting a `Secret` to a string, to JSON
+ * or inspecting it with Node's `util.inspect` yields the mask instead of the value.
+ *
+ * @template T The type of the wrapped value.
+ *
+ * @example
+ * ```typescript
+ * class LoginPage {
+ *   @step("Login as {{user}} with password {{password}}")
+ *   async login(user: string, password: Secret) {
+ *     await this.passwordInput.fill(password.reveal());
+ *   }
+ * }
+ *
+ * await loginPage.login("alice", secret("hunter2")); // Step will be "Login as alice with password ******"
+ * ```
+ */
+export class Secret<T = string> {
+	readonly #value: T;
+
+	constructor(value: T) {
+		this.#value = value;
+	}
+
+	/**
+	 * Returns the wrapped value.
+	 */
+	reveal(): T {
+		return this.#value;
+	}
+
+	toString(): string {
+		return secretMask;
+	}
+
+	toJSON(): string {
+		return secretMask;
+	}
+
+	[Symbol.for("nodejs.util.inspect.custom")](): string {
+		return secretMask;
+	}
+}
+
+/**
+ * Wraps a sensitive value in a `Secret`.
+ *
+ * @param value The value to protect.
+ * @returns The wrapped value.
+ */
+export function secret<T>(value: T): Secret<T> {
+	return new Secret(value);
+}
+
+/**
+ * Returns the text rendered in place of a secret value.
+ */
+export function getSecretMask(): string {
+	return secretMask;
+}
+
+/**
+ * Checks whether a parameter or property name matches one of the configured secret key patterns.
+ */
+export function isSecretKey(key: string): boolean {
+	return secretKeyPatterns.some(pattern =>
+		typeof pattern === "string" ? key.toLowerCase() === pattern.toLowerCase() : pattern.test(key)
+	);
+}
+
+/**
+ * Checks whether a placeholder path (e.g. `user.password`, `items[0]` or `[[1]]`) is covered by one of the given secret paths.
+ * A secret path covers itself and every path nested below it.
+ */
+export function isSecretPath(path: string, secretPaths: ReadonlyArray<string>): boolean {
+	return secretPaths.some(
+		secretPath => path === secretPath || path.startsWith(`${secretPath}.`) || path.startsWith(`${secretPath}[`)
+	);
+}
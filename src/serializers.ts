@@ -0,0 +1,192 @@
+import { getSecretMask, isSecretKey, Secret } from "./secrets";
+
+/**
+ * The default maximum length of a rendered placeholder value.
+ */
+export const DEFAULT_MAX_VALUE_LENGTH = 100;
+
+/**
+ * Turns placeholder values of a certain kind into text for step titles.
+ *
+ * A serializer matches a value when it is an instance of `type`, or when `test` returns `true` for it.
+ *
+ * @template T The type of the values this serializer renders.
+ *
+ * @example
+ * ```typescript
+ * registerSerializer<Money>({
+ *   type: Money,
+ *   serialize: money => `${money.amount.toFixed(2)} ${money.currency}`,
+ * });
+ * ```
+ */
+export interface ValueSerializer<T = unknown> {
+	/**
+	 * Matches values that are instances of this class.
+	 */
+	// oxlint-disable-next-line typescript-eslint/no-explicit-any
+	type?: abstract new (...args: any[]) => T;
+	/**
+	 * Matches values for which this predicate returns `true`.
+	 */
+	test?: (value: unknown) => boolean;
+	/**
+	 * Renders the value. `render` serializes nested values with the same serializers.
+	 */
+	serialize(value: T, render: (value: unknown) => string): string;
+}
+
+/**
+ * Options controlling how a single placeholder value is rendered.
+ */
+export interface SerializeOptions {
+	serializers?: ReadonlyArray<ValueSerializer>;
+	maxLength?: number;
+}
+
+const builtInSerializers: ReadonlyArray<ValueSerializer> = [
+	{ test: value => value === undefined, serialize: () => "undefined" },
+	{ test: value => value === null, serialize: () => "null" },
+	{ type: Secret, serialize: () => getSecretMask() },
+	{ type: Date, serialize: (value: Date) => (isNaN(value.getTime()) ? "Invalid Date" : value.toISOString()) },
+	// A Locator's `toString` returns its selector description, e.g. `getByRole('button', { name: 'Submit' })`
+	{ test: isLocator, serialize: (value: { toString(): string }) => value.toString() },
+	{ test: isPage, serialize: (value: { url(): string }) => `Page(${value.url()})` },
+	{
+		test: Array.isArray,
+		serialize: (value: unknown[], render) => `[${value.map(item => render(item)).join(", ")}]`,
+	},
+];
+
+const registeredSerializers: Array<ValueSerializer> = [];
+
+/**
+ * Registers a serializer used for placeholder values in every step title.
+ *
+ * Serializers registered later take precedence over earlier ones, and all registered serializers
+ * take precedence over the built-in rules.
+ *
+ * @param serializer The serializer to register.
+ */
+export function registerSerializer<T>(serializer: ValueSerializer<T>): void {
+	registeredSerializers.unshift(serializer);
+}
+
+/**
+ * Removes all serializers added with `registerSerializer`, leaving only the built-in rules.
+ */
+export function resetSerializers(): void {
+	registeredSerializers.length = 0;
+}
+
+/**
+ * Renders a placeholder value as text.
+ *
+ * Serializers from the options are tried first, then the globally registered ones, then the built-in rules.
+ * Plain objects and objects without their own `toString` are rendered as compact JSON, other values without
+ * a matching serializer are converted with `String()`. The result is truncated to `maxLength`.
+ */
+export function serializeValue(value: unknown, options: SerializeOptions = {}): string {
+	const render = (item: unknown): string => {
+		const serializer = findSerializer(item, options.serializers);
+		if (serializer) {
+			return serializer.serialize(item, render);
+		}
+		return isObjectWithoutToString(item)
+			? toCompactJson(item, render, candidate => findSerializer(candidate, options.serializers))
+			: String(item);
+	};
+	return truncate(render(value), options.maxLength ?? DEFAULT_MAX_VALUE_LENGTH);
+}
+
+/**
+ * Finds the serializer for a value: the given serializers first, then the globally registered ones, then the
+ * built-in rules.
+ */
+export function findSerializer(
+	value: unknown,
+	serializers: ReadonlyArray<ValueSerializer> = []
+): ValueSerializer | undefined {
+	return [...serializers, ...registeredSerializers, ...builtInSerializers].find(candidate =>
+		matchesSerializer(candidate, value)
+	);
+}
+
+function matchesSerializer(serializer: ValueSerializer, value: unknown): boolean {
+	if (serializer.type && value instanceof serializer.type) return true;
+	return serializer.test?.(value) ?? false;
+}
+
+/**
+ * Shortens text longer than `maxLength`, ending it with `…`. A `maxLength` of `0` or less keeps the text as it is.
+ */
+export function truncate(text: string, maxLength: number): string {
+	if (maxLength <= 0 || text.length <= maxLength) return text;
+	return `${text.slice(0, Math.max(0, maxLength - 1))}…`;
+}
+
+/**
+ * Renders an object as compact JSON. Values under secret keys are masked, and nested objects with their
+ * own string form (e.g. Locators) are rendered with the serializers.
+ */
+function toCompactJson(
+	value: object,
+	render: (value: unknown) => string,
+	hasSerializer: (value: unknown) => unknown
+): string {
+	// The objects being converted, outermost first, so only references back to one of them count as circular
+	const ancestors: object[] = [];
+	const json = JSON.stringify(value, function (this: unknown, key: string, item: unknown) {
+		if (key && isSecretKey(key)) return getSecretMask();
+		if (typeof item === "bigint") return render(item);
+		// Dates and Secrets are already converted by their `toJSON` before they get here
+		if (!item || typeof item !== "object") return item;
+		// The replacer is called with the object holding `item` as `this`, after the siblings of that object are done
+		while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+		if (ancestors.includes(item)) return "[Circular]";
+		if (!Array.isArray(item) && !isPlainObject(item) && (hasSerializer(item) || !isObjectWithoutToString(item))) {
+			return render(item);
+		}
+		ancestors.push(item);
+		return item;
+	});
+	return json ?? "undefined";
+}
+
+/**
+ * Checks whether a value is an object literal or an object without prototype.
+ */
+export function isPlainObject(value: unknown): value is object {
+	if (!value || typeof value !== "object") return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Checks whether a value is an object that does not define its own string form.
+ */
+export function isObjectWithoutToString(value: unknown): value is object {
+	return typeof value === "object" && value !== null && value.toString === Object.prototype.toString;
+}
+
+/**
+ * Checks whether a value looks like a Playwright `Locator`.
+ */
+export function isLocator(value: unknown): boolean {
+	return hasMethods(value, ["locator", "evaluate", "page", "waitFor"]);
+}
+
+/**
+ * Checks whether a value looks like a Playwright `Page`.
+ */
+export function isPage(value: unknown): boolean {
+	return hasMethods(value, ["goto", "url", "locator", "context"]);
+}
+
+function hasMethods(value: unknown, names: string[]): boolean {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		names.every(name => typeof (value as Record<string, unknown>)[name] === "function")
+	);
+}
@@ -0,0 +1,15 @@
+/**
+ * Checks whether an error was thrown by `test.skip()` or `test.fixme()` to end the test, which soft steps rethrow
+ * instead of recording it. Playwright does not export the class of these errors, so it is recognized by its name.
+ */
+export function isTestSkipError(error: unknown): boolean {
+	return error instanceof Error && error.constructor.name === "TestSkipError";
+}
+
+/**
+ * Checks whether an error was thrown by `stepInfo.skip()` to end a step as skipped, which is neither retried nor
+ * handled as a failure. Like `isTestSkipError`, the error is recognized by the name of its class.
+ */
+export function isStepSkipError(error: unknown): boolean {
+	return error instanceof Error && error.constructor.name === "StepSkipError";
+}
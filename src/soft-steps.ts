@@ -0,0 +1,82 @@
+import { test, TestInfo } from "@playwright/test";
+
+/**
+ * The name of the attachment created by `attachSoftStepSummary`.
+ */
+export const SOFT_STEP_SUMMARY_ATTACHMENT = "soft-step-failures";
+
+/**
+ * A failed soft step of the current test.
+ */
+export interface SoftStepFailure {
+	title: string;
+	error: unknown;
+	location?: { file: string; line: number; column: number };
+}
+
+/**
+ * The `TestInfo` of the Playwright runner, with the method `expect.soft` records its failures with.
+ */
+type FailableTestInfo = TestInfo & { _failWithError?(error: unknown): void };
+
+const softStepFailures = new WeakMap<TestInfo, SoftStepFailure[]>();
+
+/**
+ * Records the error of a soft step: the test is marked as failed and keeps running, like with `expect.soft`.
+ */
+export function recordSoftStepFailure(failure: SoftStepFailure): void {
+	const testInfo: FailableTestInfo = test.info();
+	const failures = softStepFailures.get(testInfo) ?? [];
+	failures.push(failure);
+	softStepFailures.set(testInfo, failures);
+
+	const { error } = failure;
+	if (typeof testInfo._failWithError === "function") {
+		testInfo._failWithError(error);
+		return;
+	}
+	testInfo.errors.push(
+		error instanceof Error ? { message: error.message, stack: error.stack } : { value: String(error) }
+	);
+	if (testInfo.status === "passed") {
+		testInfo.status = "failed";
+	}
+}
+
+/**
+ * Returns the soft steps that failed in a test so far.
+ *
+ * @param testInfo The test to return the failures of. Defaults to the current test.
+ */
+export function getSoftStepFailures(testInfo: TestInfo = test.info()): ReadonlyArray<SoftStepFailure> {
+	return softStepFailures.get(testInfo) ?? [];
+}
+
+/**
+ * Attaches a summary of the failed soft steps of a test, if there are any.
+ *
+ * Call it in an `afterEach` hook, so the summary lists every soft failure of the test.
+ *
+ * @param testInfo The test to summarize. Defaults to the current test.
+ *
+ * @example
+ * ```typescript
+ * test.afterEach(async ({}, testInfo) => {
+ *   await attachSoftStepSummary(testInfo);
+ * });
+ * ```
+ */
+export async function attachSoftStepSummary(testInfo: TestInfo = test.info()): Promise<void> {
+	const failures = getSoftStepFailures(testInfo);
+	if (failures.length === 0) return;
+
+	const lines = failures.map(({ title, error, location }, index) => {
+		const message = error instanceof Error ? error.message : String(error);
+		const at = location ? `\n   at ${location.file}:${location.line}:${location.column}` : "";
+		return `${index + 1}. ${title}: ${message.split("\n")[0]}${at}`;
+	});
+	await testInfo.attach(SOFT_STEP_SUMMARY_ATTACHMENT, {
+		body: `${failures.length} soft step(s) failed:\n${lines.join("\n")}\n`,
+		contentType: "text/plain",
+	});
+}
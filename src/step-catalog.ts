@@ -0,0 +1,397 @@
+import { readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+
+import * as ts from "typescript";
+
+import { FunctionParameters } from "./parameters";
+import { DescriptionTemplate, findMissingParams, parseDescription, Placeholder } from "./placeholders";
+
+/**
+ * The decorators recognized as step decorators by default.
+ */
+export const STEP_DECORATOR_NAMES: ReadonlyArray<string> = [
+	"step",
+	"softStep",
+	"Given",
+	"When",
+	"Then",
+	"And",
+	"given",
+	"when",
+	"and",
+];
+
+/**
+ * A decorated step found in the source.
+ */
+export interface StepCatalogEntry {
+	file: string;
+	line: number;
+	className: string;
+	methodName: string;
+	/**
+	 * The name of the decorator, e.g. `step` or `Given`.
+	 */
+	decorator: string;
+	/**
+	 * The description as written, or `undefined` for steps without a description, with a title function or with a
+	 * description that is not a string literal.
+	 */
+	description?: string;
+	/**
+	 * The parameters of the method as written, without their types.
+	 */
+	parameters: string[];
+}
+
+/**
+ * A problem found in the source, reported by the `lint` command.
+ */
+export interface StepProblem {
+	file: string;
+	line: number;
+	column: number;
+	/**
+	 * Errors are placeholders that fail at runtime, warnings are public async methods that are not decorated.
+	 */
+	severity: "error" | "warning";
+	message: string;
+}
+
+/**
+ * The decorated steps and problems found in one or more source files.
+ */
+export interface StepCatalog {
+	steps: StepCatalogEntry[];
+	problems: StepProblem[];
+}
+
+/**
+ * Options of the source scan.
+ */
+export interface StepScanOptions {
+	/**
+	 * More decorator names to treat as step decorators, e.g. of decorators created with `createStepDecorator`.
+	 */
+	decorators?: ReadonlyArray<string>;
+}
+
+/**
+ * Finds the decorated steps of a TypeScript source and checks their placeholders, like the runtime checks do.
+ *
+ * Reported are placeholders naming parameters the method does not declare, `[[n]]` placeholders beyond the declared
+ * parameters, placeholders with invalid syntax, and public async methods without a step decorator in classes that
+ * have decorated steps (unless the class is decorated with `@steps`).
+ *
+ * @param source The source text.
+ * @param file The file name used in the results.
+ */
+export function scanSource(source: string, file: string, options: StepScanOptions = {}): StepCatalog {
+	const decoratorNames = new Set([...STEP_DECORATOR_NAMES, ...(options.decorators ?? [])]);
+	const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+	const catalog: StepCatalog = { steps: [], problems: [] };
+
+	const position = (node: ts.Node) => {
+		const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+		return { file, line: line + 1, column: character + 1 };
+	};
+
+	const scanClass = (node: ts.ClassLikeDeclaration) => {
+		const className = node.name?.text ?? "(anonymous)";
+		const wrapsAllMethods = getDecoratorCalls(node).some(({ name }) => name === "steps");
+		const undecoratedMethods: ts.MethodDeclaration[] = [];
+		let hasSteps = false;
+
+		for (const member of node.members) {
+			if (!ts.isMethodDeclaration(member) && !ts.isGetAccessor(member) && !ts.isSetAccessor(member)) continue;
+			const decorator = getDecoratorCalls(member).find(({ name }) => decoratorNames.has(name));
+			if (!decorator) {
+				if (ts.isMethodDeclaration(member) && isPublicAsyncMethod(member)) undecoratedMethods.push(member);
+				continue;
+			}
+
+			hasSteps = true;
+			const methodName = member.name.getText(sourceFile);
+			const parameters = member.parameters.filter(parameter => parameter.name.getText(sourceFile) !== "this");
+			const description = getDescription(decorator.arguments[0]);
+			catalog.steps.push({
+				file,
+				line: position(member).line,
+				className,
+				methodName,
+				decorator: decorator.name,
+				description,
+				parameters: parameters.map(parameter => getParameterText(parameter, sourceFile)),
+			});
+			if (description !== undefined) {
+				const problems = checkDescription(`${className}.${methodName}`, description, parameters);
+				catalog.problems.push(
+					...problems.map(message => ({ ...position(decorator.node), severity: "error" as const, message }))
+				);
+			}
+		}
+
+		if (hasSteps && !wrapsAllMethods) {
+			for (const method of undecoratedMethods) {
+				catalog.problems.push({
+					...position(method),
+					severity: "warning",
+					message: `Public async method '${className}.${method.name.getText(sourceFile)}' is not decorated with a step decorator.`,
+				});
+			}
+		}
+	};
+
+	const visit = (node: ts.Node) => {
+		if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) scanClass(node);
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+	return catalog;
+}
+
+/**
+ * Scans the TypeScript files at the given paths, searching directories recursively.
+ *
+ * Declaration files and `node_modules` directories are skipped. File names in the results are relative to the
+ * current working directory.
+ */
+export function scanFiles(paths: ReadonlyArray<string>, options: StepScanOptions = {}): StepCatalog {
+	const catalog: StepCatalog = { steps: [], problems: [] };
+	for (const file of paths.flatMap(path => findSourceFiles(path))) {
+		const name = relative(process.cwd(), file).replace(/\\/g, "/");
+		const result = scanSource(readFileSync(file, "utf8"), name, options);
+		catalog.steps.push(...result.steps);
+		catalog.problems.push(...result.problems);
+	}
+	return catalog;
+}
+
+/**
+ * Formats a catalog as a Markdown document with a table of steps per class, followed by the problems found.
+ */
+export function formatCatalogMarkdown(catalog: StepCatalog): string {
+	const lines = ["# Step Catalog", ""];
+	const classes = new Map<string, StepCatalogEntry[]>();
+	for (const entry of catalog.steps) {
+		const key = `${entry.file}\0${entry.className}`;
+		classes.set(key, [...(classes.get(key) ?? []), entry]);
+	}
+
+	for (const entries of classes.values()) {
+		const [{ className, file }] = entries;
+		lines.push(`## ${className}`, "", `\`${file}\``, "");
+		lines.push("| Method | Decorator | Description | Parameters | Line |", "| --- | --- | --- | --- | --- |");
+		for (const entry of entries) {
+			const description = entry.description === undefined ? "" : escapeTableCell(entry.description);
+			const parameters = entry.parameters.map(parameter => `\`${escapeTableCell(parameter)}\``).join(", ");
+			lines.push(`| \`${entry.methodName}\` | @${entry.decorator} | ${description} | ${parameters} | ${entry.line} |`);
+		}
+		lines.push("");
+	}
+
+	if (catalog.problems.length > 0) {
+		lines.push("## Problems", "", ...catalog.problems.map(problem => `- ${formatProblem(problem)}`), "");
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Formats a problem as `file:line:column severity message`.
+ */
+export function formatProblem(problem: StepProblem): string {
+	return `${problem.file}:${problem.line}:${problem.column} ${problem.severity} ${problem.message}`;
+}
+
+const usage = `Usage: playwright-step-decorator <scan|lint> [paths...] [options]
+
+Commands:
+  scan    Print a catalog of the decorated steps
+  lint    Report placeholder problems and undecorated public async methods
+
+Options:
+  --format <json|markdown>  Format of the catalog (default: json)
+  --output <file>           Write the catalog to a file instead of the standard output
+  --decorator <name>        Treat decorators with this name as step decorators as well, repeatable
+  --strict                  Let lint fail on warnings as well as errors
+  --help                    Show this help
+`;
+
+/**
+ * Runs the `scan` or `lint` command of the command line interface.
+ *
+ * @param args The command line arguments, without the node executable and the script.
+ * @param output Receives text for the standard output and the standard error.
+ * @returns The exit code: `0` on success, `1` if `lint` found problems and `2` for invalid arguments or paths.
+ */
+export function runCatalogCommand(
+	args: ReadonlyArray<string>,
+	output: { stdout(text: string): void; stderr(text: string): void }
+): number {
+	const [command, ...rest] = args;
+	if (!command || command === "--help" || rest.includes("--help")) {
+		output.stdout(usage);
+		return command ? 0 : 2;
+	}
+	if (command !== "scan" && command !== "lint") {
+		output.stderr(`Unknown command '${command}'.\n\n${usage}`);
+		return 2;
+	}
+
+	const paths: string[] = [];
+	const decorators: string[] = [];
+	let format = "json";
+	let outputFile: string | undefined;
+	let strict = false;
+	for (let index = 0; index < rest.length; index++) {
+		const arg = rest[index];
+		const value = () => rest[++index] ?? "";
+		if (arg === "--format") format = value();
+		else if (arg === "--output") outputFile = value();
+		else if (arg === "--decorator") decorators.push(value());
+		else if (arg === "--strict") strict = true;
+		else if (arg.startsWith("--")) {
+			output.stderr(`Unknown option '${arg}'.\n\n${usage}`);
+			return 2;
+		} else paths.push(arg);
+	}
+	if (format !== "json" && format !== "markdown") {
+		output.stderr(`Unknown format '${format}', expected 'json' or 'markdown'.\n`);
+		return 2;
+	}
+
+	let catalog: StepCatalog;
+	try {
+		catalog = scanFiles(paths.length > 0 ? paths : ["."], { decorators });
+	} catch (error) {
+		output.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+		return 2;
+	}
+	if (command === "scan") {
+		const text = format === "json" ? `${JSON.stringify(catalog, null, 2)}\n` : formatCatalogMarkdown(catalog);
+		if (outputFile) writeFileSync(outputFile, text);
+		else output.stdout(text);
+		return 0;
+	}
+
+	const errors = catalog.problems.filter(({ severity }) => severity === "error").length;
+	const warnings = catalog.problems.length - errors;
+	for (const problem of catalog.problems) {
+		output.stdout(`${formatProblem(problem)}\n`);
+	}
+	output.stdout(`${catalog.steps.length} step(s) checked: ${errors} error(s), ${warnings} warning(s).\n`);
+	return errors > 0 || (strict && warnings > 0) ? 1 : 0;
+}
+
+/**
+ * Returns the decorators of a node called with arguments, e.g. `@step("...")`, with the name of the called function.
+ */
+function getDecoratorCalls(
+	node: ts.Node
+): Array<{ name: string; arguments: ts.NodeArray<ts.Expression>; node: ts.Node }> {
+	const decorators = ts.canHaveDecorators(node) ? (ts.getDecorators(node) ?? []) : [];
+	return decorators.flatMap(decorator => {
+		const call = decorator.expression;
+		if (!ts.isCallExpression(call) || !ts.isIdentifier(call.expression)) return [];
+		return [{ name: call.expression.text, arguments: call.arguments, node: decorator }];
+	});
+}
+
+/**
+ * Returns the description of a step decorator call, if it is a string literal.
+ */
+function getDescription(argument: ts.Expression | undefined): string | undefined {
+	return argument && (ts.isStringLiteral(argument) || ts.isNoSubstitutionTemplateLiteral(argument))
+		? argument.text
+		: undefined;
+}
+
+/**
+ * Checks the placeholders of a description against the declared parameters of the method.
+ */
+function checkDescription(
+	methodName: string,
+	description: string,
+	parameters: ReadonlyArray<ts.ParameterDeclaration>
+): string[] {
+	let template: DescriptionTemplate;
+	try {
+		template = parseDescription(methodName, description);
+	} catch (error) {
+		return [error instanceof Error ? error.message : String(error)];
+	}
+
+	const problems: string[] = [];
+	const missingParams = findMissingParams(template, toFunctionParameters(parameters));
+	if (missingParams.length > 0) {
+		problems.push(`Missing function parameters (${missingParams.join(", ")}) in method '${methodName}'.`);
+	}
+	if (!parameters.some(parameter => parameter.dotDotDotToken)) {
+		const indices = template
+			.filter((part): part is Placeholder => typeof part !== "string" && typeof part.root === "number")
+			.map(placeholder => placeholder.root as number)
+			.filter(index => index >= parameters.length);
+		for (const index of new Set(indices)) {
+			problems.push(
+				`Parameter index '${index}' is out of bounds in method '${methodName}', which declares ${parameters.length} parameter(s).`
+			);
+		}
+	}
+	return problems;
+}
+
+/**
+ * Converts declared parameters to the parameters the placeholders are checked against. Names bound by destructured
+ * parameters are included, as placeholders can reference them.
+ */
+function toFunctionParameters(parameters: ReadonlyArray<ts.ParameterDeclaration>): FunctionParameters {
+	const result: FunctionParameters = { names: [], bindings: [] };
+	parameters.forEach((parameter, index) => {
+		result.names.push(ts.isIdentifier(parameter.name) ? parameter.name.text : undefined);
+		for (const name of getBoundNames(parameter.name)) {
+			result.bindings.push({ name, index, path: [] });
+		}
+	});
+	return result;
+}
+
+function getBoundNames(name: ts.BindingName): string[] {
+	if (ts.isIdentifier(name)) return [name.text];
+	return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : getBoundNames(element.name)));
+}
+
+/**
+ * Returns a parameter as written, without its type annotation.
+ */
+function getParameterText(parameter: ts.ParameterDeclaration, sourceFile: ts.SourceFile): string {
+	const rest = parameter.dotDotDotToken ? "..." : "";
+	const optional = parameter.questionToken ? "?" : "";
+	const initializer = parameter.initializer ? ` = ${parameter.initializer.getText(sourceFile)}` : "";
+	return `${rest}${parameter.name.getText(sourceFile)}${optional}${initializer}`;
+}
+
+function isPublicAsyncMethod(method: ts.MethodDeclaration): boolean {
+	const modifiers = ts.getModifiers(method) ?? [];
+	const hasModifier = (kind: ts.SyntaxKind) => modifiers.some(modifier => modifier.kind === kind);
+	return (
+		hasModifier(ts.SyntaxKind.AsyncKeyword) &&
+		!hasModifier(ts.SyntaxKind.PrivateKeyword) &&
+		!hasModifier(ts.SyntaxKind.ProtectedKeyword) &&
+		!hasModifier(ts.SyntaxKind.StaticKeyword) &&
+		!ts.isPrivateIdentifier(method.name)
+	);
+}
+
+function findSourceFiles(path: string): string[] {
+	if (!statSync(path).isDirectory()) return [path];
+	return readdirSync(path, { withFileTypes: true }).flatMap(entry => {
+		const child = join(path, entry.name);
+		if (entry.isDirectory())
+			return entry.name === "node_modules" || entry.name.startsWith(".") ? [] : findSourceFiles(child);
+		return /\.[cm]?tsx?$/.test(entry.name) && !/\.d\.[cm]?ts$/.test(entry.name) ? [child] : [];
+	});
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, "\\|");
+}
@@ -0,0 +1,66 @@
+/**
+ * The context of the decorated step an error was thrown in, added to the error by the step decorator.
+ */
+export interface StepErrorContext {
+	/**
+	 * The names of the nested decorated steps leading to the error, outermost first,
+	 * e.g. `["CheckoutPage.pay", "PaymentForm.fill", "CardInput.type"]`.
+	 */
+	breadcrumb: string[];
+	/**
+	 * The resolved title of the step the error was thrown in.
+	 */
+	title: string;
+	/**
+	 * The arguments of that step keyed by parameter name, with secrets masked.
+	 */
+	arguments: Record<string, unknown>;
+}
+
+/**
+ * An error thrown inside a decorated step, enriched with the context of that step.
+ */
+export type StepError = Error & { stepContext: StepErrorContext };
+
+/**
+ * Adds the context of the innermost failing step to an error, keeping its type and its `cause`.
+ *
+ * The context is stored in the non-enumerable `stepContext` property, and a summary line with the breadcrumb is
+ * appended to the message and the stack. An error is only enriched once, so steps it propagates through leave it
+ * as it is. Values that are not errors are returned unchanged.
+ */
+export function enrichStepError(error: unknown, context: () => StepErrorContext): unknown {
+	if (!(error instanceof Error) || getStepErrorContext(error) || !Object.isExtensible(error)) {
+		return error;
+	}
+
+	const stepContext = context();
+	Object.defineProperty(error, "stepContext", { value: stepContext, configurable: true, writable: true });
+
+	const header = `${error.name}: ${error.message}`;
+	error.message += `\n\nStep: ${stepContext.breadcrumb.join(" > ")} ("${stepContext.title}")`;
+	if (error.stack?.startsWith(header)) {
+		error.stack = `${error.name}: ${error.message}${error.stack.slice(header.length)}`;
+	}
+	return error;
+}
+
+/**
+ * Returns the context of the decorated step an error was thrown in.
+ *
+ * @param error The error caught from a decorated method.
+ * @returns The context, or `undefined` if the error was not thrown inside a decorated step.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await checkoutPage.pay(card);
+ * } catch (error) {
+ *   console.log(getStepErrorContext(error)?.breadcrumb.join(" > "));
+ *   throw error;
+ * }
+ * ```
+ */
+export function getStepErrorContext(error: unknown): StepErrorContext | undefined {
+	return error instanceof Error && "stepContext" in error ? (error as StepError).stepContext : undefined;
+}
@@ -0,0 +1,83 @@
+import { TestStepInfo } from "@playwright/test";
+
+import type { GherkinKeyword } from "./scenario";
+
+/**
+ * The name of the attachment recording the metadata of a decorated step. Attachments starting with an underscore are
+ * hidden in Playwright's HTML report and terminal output.
+ */
+export const STEP_METADATA_ATTACHMENT = "_step-decorator";
+
+/**
+ * What a decorated step records about itself, so reporters can tell it apart from plain `test.step` calls.
+ */
+export interface StepMetadata {
+	/**
+	 * The class name of the decorated method, or an empty string for functions wrapped with `withStep`.
+	 */
+	className: string;
+	/**
+	 * The name of the decorated method or wrapped function.
+	 */
+	methodName: string;
+	/**
+	 * The Gherkin keyword of a `Given`, `When`, `Then` or `And` step.
+	 */
+	keyword?: GherkinKeyword;
+	/**
+	 * The description the title was resolved from, or `undefined` if the title was returned by a function.
+	 */
+	titleTemplate?: string;
+	/**
+	 * The resolved step title as shown in the report.
+	 */
+	title: string;
+	/**
+	 * The arguments of the step keyed by parameter name, with secrets masked.
+	 */
+	arguments: Record<string, unknown>;
+	/**
+	 * The `tags` option of the step, if it has any.
+	 */
+	tags?: string[];
+	/**
+	 * The `requirements` option of the step, if it has any.
+	 */
+	requirements?: string[];
+}
+
+/**
+ * Attaches the metadata of a decorated step to that step.
+ */
+export async function attachStepMetadata(stepInfo: TestStepInfo, metadata: StepMetadata): Promise<void> {
+	await stepInfo.attach(STEP_METADATA_ATTACHMENT, {
+		body: JSON.stringify(metadata),
+		contentType: "application/json",
+	});
+}
+
+/**
+ * Reads the metadata recorded by a decorated step from the attachments of a reported step.
+ *
+ * @param step A step passed to a reporter, e.g. from `TestResult.steps`.
+ * @returns The metadata, or `undefined` if the step was not created by the step decorator.
+ *
+ * @example
+ * ```typescript
+ * onStepEnd(test: TestCase, result: TestResult, step: TestStep) {
+ *   const metadata = readStepMetadata(step);
+ *   if (metadata) console.log(`${metadata.className}.${metadata.methodName}`);
+ * }
+ * ```
+ */
+export function readStepMetadata(step: {
+	attachments: ReadonlyArray<{ name: string; body?: Buffer }>;
+}): StepMetadata | undefined {
+	const attachment = step.attachments.find(({ name, body }) => name === STEP_METADATA_ATTACHMENT && body);
+	if (!attachment?.body) return undefined;
+	try {
+		return JSON.parse(attachment.body.toString("utf8")) as StepMetadata;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,100 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { test, expect } from "@playwright/test";
+
+import { captureCallSiteLocation, normalizeStackPath } from "../src/call-site";
+import { configureSteps, resetStepConfig } from "../src/config";
+
+/**
+ * Writes generated code calling `capture` on its second line, with a source map pointing that line to line 10,
+ * column 5 of `source`. The map is inlined unless `mapFile` is given.
+ *
+ * The code is written to a `node_modules` directory, like a compiled library, so Playwright does not transpile it.
+ */
+const writeGeneratedFile = (name: string, source: string, options: { mapFile?: string; sourceRoot?: string } = {}) => {
+	const directory = test.info().outputPath("node_modules", name);
+	mkdirSync(directory, { recursive: true });
+	const file = join(directory, "generated.js");
+	const sourceMap = JSON.stringify({
+		version: 3,
+		file: "generated.js",
+		sourceRoot: options.sourceRoot,
+		sources: [source],
+		names: [],
+		mappings: ";AASI",
+	});
+	const url = options.mapFile ?? `data:application/json;base64,${Buffer.from(sourceMap).toString("base64")}`;
+	if (options.mapFile) writeFileSync(join(directory, options.mapFile), sourceMap);
+	writeFileSync(file, `exports.run = function run(capture) {\n\treturn capture();\n};\n//# sourceMappingURL=${url}\n`);
+	return {
+		directory,
+		...(require(file) as { run: (capture: () => unknown) => ReturnType<typeof captureCallSiteLocation> }),
+	};
+};
+
+const capture = function capture() {
+	return captureCallSiteLocation(capture);
+};
+
+test.describe("captureCallSiteLocation", () => {
+	test.afterEach(() => {
+		resetStepConfig();
+	});
+
+	test("should return the location the function was called from", () => {
+		const [location, line] = [capture(), new Error().stack?.split("\n")[1]];
+
+		expect(location?.file).toBe(__filename.replace(/\\/g, "/"));
+		expect(line).toContain(`call-site.test.ts:${location?.line}:`);
+	});
+
+	test("should map generated code with an inline source map", () => {
+		const generated = writeGeneratedFile("inline", "../../src/pages/login-page.ts");
+
+		expect(generated.run(capture)).toEqual({
+			file: join(generated.directory, "../../src/pages/login-page.ts").replace(/\\/g, "/"),
+			line: 10,
+			column: 5,
+		});
+	});
+
+	test("should map generated code with a separate source map file", () => {
+		const generated = writeGeneratedFile("separate", "login-page.ts", {
+			mapFile: "generated.js.map",
+			sourceRoot: "../../src/",
+		});
+
+		expect(generated.run(capture)).toMatchObject({
+			file: join(generated.directory, "../../src/login-page.ts").replace(/\\/g, "/"),
+			line: 10,
+		});
+	});
+
+	test("should resolve custom path schemes", () => {
+		const generated = writeGeneratedFile("scheme", "app://pages/login-page.ts");
+		configureSteps({
+			stackPathResolvers: [
+				path => (path.startsWith("other://") ? "/other" : undefined),
+				path => path.replace(/^app:\/\//, "/repo/packages/"),
+			],
+		});
+
+		expect(generated.run(capture)?.file).toBe("/repo/packages/pages/login-page.ts");
+	});
+
+	test("should skip ignored frames", () => {
+		const generated = writeGeneratedFile("ignored", "../../src/login-page.ts");
+		configureSteps({ ignoredStackFragments: ["login-page.ts"] });
+
+		expect(generated.run(capture)?.file).toBe(__filename.replace(/\\/g, "/"));
+	});
+});
+
+test.describe("normalizeStackPath", () => {
+	test("should remove file and bundler schemes", () => {
+		expect(normalizeStackPath("file:///repo/tests/login.spec.ts")).toBe("/repo/tests/login.spec.ts");
+		expect(normalizeStackPath("webpack://repo/tests/login.spec.ts")).toBe("repo/tests/login.spec.ts");
+		expect(normalizeStackPath("C:\\repo\\tests\\login.spec.ts")).toBe("C:/repo/tests/login.spec.ts");
+	});
+});
@@ -0,0 +1,132 @@
+import { test, expect } from "@playwright/test";
+
+import { getFunctionParameters, resolveBinding } from "../src/parameters";
+
+const bindingNames = (fn: Function) => getFunctionParameters(fn).bindings.map(binding => binding.name);
+
+test.describe("getFunctionParameters", () => {
+	test("should read plain parameters of methods, functions and arrow functions", () => {
+		class MyClass {
+			async method(first: string, second: number) {
+				return [first, second];
+			}
+		}
+
+		// oxlint-disable-next-line typescript-eslint/unbound-method
+		expect(bindingNames(MyClass.prototype.method)).toEqual(["first", "second"]);
+		expect(
+			bindingNames(function named(a: unknown, b: unknown) {
+				return [a, b];
+			})
+		).toEqual(["a", "b"]);
+		expect(bindingNames((a: unknown) => a)).toEqual(["a"]);
+		// oxlint-disable-next-line typescript-eslint/no-implied-eval
+		expect(bindingNames(new Function("single", "return single"))).toEqual(["single"]);
+	});
+
+	test("should parse source without parentheses around a single arrow parameter", () => {
+		// oxlint-disable-next-line typescript-eslint/no-implied-eval
+		const arrow = new Function("return async value => value")() as Function;
+
+		expect(bindingNames(arrow)).toEqual(["value"]);
+	});
+
+	test("should strip default values and keep literal defaults", () => {
+		const fn = (a = fallback(), b = "x)", timeout = 5000, flag = true, negative = -1) => [
+			a,
+			b,
+			timeout,
+			flag,
+			negative,
+		];
+		const parameters = getFunctionParameters(fn);
+
+		expect(parameters.names).toEqual(["a", "b", "timeout", "flag", "negative"]);
+		expect(parameters.bindings.map(binding => binding.defaultValue)).toEqual([
+			undefined,
+			{ value: "x)" },
+			{ value: 5000 },
+			{ value: true },
+			{ value: -1 },
+		]);
+	});
+
+	test("should read rest parameters", () => {
+		const fn = (first: string, ...rest: string[]) => [first, rest];
+		const [first, rest] = getFunctionParameters(fn).bindings;
+
+		expect(rest.name).toBe("rest");
+		expect(resolveBinding(first, ["a", "b", "c"])).toBe("a");
+		expect(resolveBinding(rest, ["a", "b", "c"])).toEqual(["b", "c"]);
+	});
+
+	test("should read destructured object and array parameters", () => {
+		const fn = (
+			{
+				name,
+				address: { city },
+				"zip-code": zip = "0000",
+				...others
+			}: Record<string, unknown> & {
+				address: { city: string };
+			},
+			[head, , third = 3, ...tail]: number[]
+		) => [name, city, zip, others, head, third, tail];
+		const parameters = getFunctionParameters(fn);
+		const args = [{ name: "Alice", address: { city: "Utrecht" }, age: 30 }, [1, 2, undefined, 4, 5]];
+		const values = Object.fromEntries(
+			parameters.bindings.map(binding => [binding.name, resolveBinding(binding, args)])
+		);
+
+		expect(parameters.names).toEqual([undefined, undefined]);
+		expect(values).toEqual({
+			name: "Alice",
+			city: "Utrecht",
+			zip: "0000",
+			others: { age: 30 },
+			head: 1,
+			third: 3,
+			tail: [4, 5],
+		});
+	});
+
+	test("should ignore comments, strings and regular expressions", () => {
+		const source = `function (a /* , fake) */, // b)
+			b = "(c, d)", c = /[)]/g, d = \`\${(1, 2)}\`) { return a; }`;
+		// oxlint-disable-next-line typescript-eslint/no-implied-eval
+		const fn = new Function(`return ${source}`)() as Function;
+
+		expect(bindingNames(fn)).toEqual(["a", "b", "c", "d"]);
+	});
+
+	test("should read transpiled async methods", () => {
+		const source = `login(user, role) {
+			return __awaiter(this, void 0, void 0, function* () { yield this.fill(user, role); });
+		}`;
+		// oxlint-disable-next-line typescript-eslint/no-implied-eval
+		const fn = new Function(`return ({ ${source} }).login`)() as Function;
+
+		expect(bindingNames(fn)).toEqual(["user", "role"]);
+	});
+
+	test("should skip computed method names", () => {
+		const key = "method";
+		const instance = {
+			async [`${key}(fake)`](real: string) {
+				return real;
+			},
+		};
+
+		expect(bindingNames(instance["method(fake)"])).toEqual(["real"]);
+	});
+
+	test("should cache the result per function", () => {
+		const fn = (a: string) => a;
+
+		expect(getFunctionParameters(fn)).toBe(getFunctionParameters(fn));
+	});
+});
+
+function fallback(): string {
+	return "fallback";
+}
@@ -1,9 +1,38 @@
-import { test, expect } from "@playwright/test";
-
-import { step } from "../src/playwright-step-decorator";
+import { test, expect, TestStepInfo } from "@playwright/test";
+
+import { STEP_VALUES_ATTACHMENT } from "../src/attachments";
+import { configureSteps, getStepConfig, resetStepConfig, StepConfigFixtures, stepConfigFixtures } from "../src/config";
+import { FAILURE_EVIDENCE_ATTACHMENTS } from "../src/failure-evidence";
+import {
+	And,
+	and,
+	createStepDecorator,
+	getCurrentStepInfo,
+	getStepInfo,
+	Given,
+	given,
+	softStep,
+	step,
+	steps,
+	Then,
+	When,
+	when,
+	withStep,
+} from "../src/playwright-step-decorator";
+import { registerStepPlugin, resetStepPlugins, StepEndEvent, StepErrorEvent, StepEvent } from "../src/plugins";
+import { StepRetryError } from "../src/retry";
+import { attachScenario, formatScenario, getScenarioSteps, SCENARIO_ATTACHMENT } from "../src/scenario";
+import { configureSecretMasking, DEFAULT_SECRET_KEY_PATTERNS, Secret, secret } from "../src/secrets";
+import { registerSerializer, resetSerializers } from "../src/serializers";
+import { attachSoftStepSummary, getSoftStepFailures, SOFT_STEP_SUMMARY_ATTACHMENT } from "../src/soft-steps";
+import { getStepErrorContext, StepError } from "../src/step-errors";
+import { STEP_METADATA_ATTACHMENT, StepMetadata } from "../src/step-metadata";
+
+type MockStepOptions = { box?: boolean; timeout?: number; location?: { file: string; line: number; column: number } };
 
 const collectedSteps: string[] = [];
 const collectedLocations: Array<{ file: string; line: number; column: number } | undefined> = [];
+const collectedOptions: Array<MockStepOptions | undefined> = [];
 
 const getCurrentLineNumber = () => {
 	const stack = new Error().stack;
@@ -14,17 +43,47 @@ const getCurrentLineNumber = () => {
 	return match ? Number(match[1]) : -1;
 };
 
+const collectedSkips: Array<{ step: string; reason?: string }> = [];
+const collectedAttachments: Array<{ step: string; name: string; body?: unknown; contentType?: string }> = [];
+// The metadata every decorated step records is kept apart from the attachments added by step options
+const collectedMetadata: Array<{ step: string; metadata: StepMetadata }> = [];
+
+class StepSkipError extends Error {}
+
 const mockTestStep = async (
 	desc: string,
-	fn: () => Promise<unknown>,
-	options?: { location?: { file: string; line: number; column: number } }
+	fn: (stepInfo: TestStepInfo) => Promise<unknown>,
+	options?: MockStepOptions
 ) => {
 	collectedSteps.push(desc);
 	collectedLocations.push(options?.location);
-	return await fn();
+	collectedOptions.push(options);
+	const skip = (condition = true, reason?: string) => {
+		if (!condition) return;
+		collectedSkips.push({ step: desc, reason });
+		throw new StepSkipError();
+	};
+	try {
+		const attach = async (name: string, options: { body?: unknown; contentType?: string } = {}) => {
+			if (name === STEP_METADATA_ATTACHMENT) {
+				collectedMetadata.push({ step: desc, metadata: JSON.parse(String(options.body)) as StepMetadata });
+				return;
+			}
+			collectedAttachments.push({ step: desc, name, ...options });
+		};
+		return await fn({ titlePath: [desc], skip, attach } as unknown as TestStepInfo);
+	} catch (error) {
+		// Like Playwright, a skipped step ends without an error or a result
+		if (error instanceof StepSkipError) return undefined;
+		throw error;
+	}
 };
 
-test.describe("step decorator", () => {
+/**
+ * Replaces `test.step` with `mockTestStep` for the tests of the enclosing `describe` block and clears what the mock
+ * collected before each test.
+ */
+const mockStepRunner = () => {
 	let originalStep: typeof test.step;
 
 	test.beforeAll(() => {
@@ -39,9 +98,36 @@ test.describe("step decorator", () => {
 	});
 
 	test.beforeEach(() => {
-		collectedSteps.length = 0;
-		collectedLocations.length = 0;
+		for (const collected of [
+			collectedSteps,
+			collectedLocations,
+			collectedOptions,
+			collectedSkips,
+			collectedAttachments,
+			collectedMetadata,
+		]) {
+			collected.length = 0;
+		}
 	});
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+type LegacyMethodDecorator = (target: object, propertyKey: string, descriptor: PropertyDescriptor) => unknown;
+
+/**
+ * Applies method decorators the way TypeScript emits them with `experimentalDecorators` (like `__decorate` in tslib).
+ */
+const decorateLegacyMethod = (prototype: object, propertyKey: string, ...decorators: LegacyMethodDecorator[]) => {
+	let descriptor = Object.getOwnPropertyDescriptor(prototype, propertyKey) as PropertyDescriptor;
+	for (const decorator of [...decorators].reverse()) {
+		descriptor = (decorator(prototype, propertyKey, descriptor) as PropertyDescriptor | undefined) ?? descriptor;
+	}
+	Object.defineProperty(prototype, propertyKey, descriptor);
+};
+
+test.describe("step decorator", () => {
+	mockStepRunner();
 
 	test("should replace simple parameter in description", async () => {
 		class MyTestClass {
@@ -135,6 +221,7 @@ test.describe("step decorator", () => {
 
 	test("should throw error if [[2]] index is out of bounds", async () => {
 		class MyTestClass {
+			// @ts-expect-error Out-of-bounds index, checked at runtime below
 			@step("Value at [[2]] is {{value}}")
 			async foo(value: string) {
 				return `Value is ${value}`;
@@ -166,7 +253,7 @@ test.describe("step decorator", () => {
 		}
 		const instance = new MyTestClass();
 		await instance.foo(["one", "two", "three"]);
-		expect(collectedSteps[0]).toBe("Array values: one,two,three");
+		expect(collectedSteps[0]).toBe("Array values: [one, two, three]");
 	});
 
 	test("should collect steps when a step-decorated method calls another", async () => {
@@ -191,23 +278,7 @@ test.describe("step decorator", () => {
 });
 
 test.describe("step decorator - location tracking", () => {
-	let originalStep: typeof test.step;
-
-	test.beforeAll(() => {
-		originalStep = (test as { step: typeof test.step }).step;
-		// oxlint-disable-next-line typescript-eslint/no-explicit-any
-		(test as any).step = mockTestStep;
-	});
-
-	test.afterAll(() => {
-		// oxlint-disable-next-line typescript-eslint/no-explicit-any
-		(test as any).step = originalStep;
-	});
-
-	test.beforeEach(() => {
-		collectedSteps.length = 0;
-		collectedLocations.length = 0;
-	});
+	mockStepRunner();
 
 	test("should capture location when decorated method is called", async () => {
 		class MyTestClass {
@@ -406,3 +477,2612 @@ test.describe("step decorator - location tracking", () => {
 		expect(location?.column).toBeGreaterThan(0);
 	});
 });
+
+test.describe("step decorator - step context", () => {
+	mockStepRunner();
+
+	test("should return the step info of the running step", async () => {
+		class MyTestClass {
+			@step("Get title")
+			async getTitle(): Promise<string[]> {
+				return getStepInfo(this).titlePath;
+			}
+		}
+
+		const instance = new MyTestClass();
+		expect(await instance.getTitle()).toEqual(["Get title"]);
+	});
+
+	test("should keep parallel steps on the same instance separated", async () => {
+		class MyTestClass {
+			@step("Slow {{name}}")
+			async slow(name: string): Promise<string[]> {
+				void name; // Suppress unused warning
+				await delay(20);
+				return getStepInfo(this).titlePath;
+			}
+
+			@step("Fast {{name}}")
+			async fast(name: string): Promise<string[]> {
+				void name; // Suppress unused warning
+				await delay(1);
+				return getStepInfo(this).titlePath;
+			}
+		}
+
+		const instance = new MyTestClass();
+		const results = await Promise.all([instance.slow("a"), instance.fast("b"), instance.slow("c")]);
+
+		expect(results).toEqual([["Slow a"], ["Fast b"], ["Slow c"]]);
+	});
+
+	test("should restore the outer step after a nested step finishes", async () => {
+		class MyTestClass {
+			@step("Outer step")
+			async outer(): Promise<string[][]> {
+				const inner = await this.inner();
+				return [inner, getStepInfo(this).titlePath];
+			}
+
+			@step("Inner step")
+			async inner(): Promise<string[]> {
+				return getStepInfo(this).titlePath;
+			}
+		}
+
+		const instance = new MyTestClass();
+		expect(await instance.outer()).toEqual([["Inner step"], ["Outer step"]]);
+	});
+
+	test("should return the step of the given instance when called from another instance's step", async () => {
+		class Inner {
+			@step("Inner step")
+			async run(outer: Outer): Promise<string[][]> {
+				return [getStepInfo(this).titlePath, getStepInfo(outer).titlePath];
+			}
+		}
+
+		class Outer {
+			@step("Outer step")
+			async run(): Promise<string[][]> {
+				return await new Inner().run(this);
+			}
+		}
+
+		expect(await new Outer().run()).toEqual([["Inner step"], ["Outer step"]]);
+	});
+
+	test("should throw when no step context exists for the instance", async () => {
+		class MyTestClass {
+			async undecorated(): Promise<TestStepInfo> {
+				return getStepInfo(this);
+			}
+		}
+
+		await expect(new MyTestClass().undecorated()).rejects.toThrow("No Playwright step context found");
+	});
+
+	test("should expose the innermost step via getCurrentStepInfo", async () => {
+		const readTitle = () => getCurrentStepInfo().titlePath;
+
+		class MyTestClass {
+			@step("Outer step")
+			async outer(): Promise<string[][]> {
+				return await Promise.all([this.inner("a"), this.inner("b")]);
+			}
+
+			@step("Inner {{name}}")
+			async inner(name: string): Promise<string[]> {
+				await delay(name === "a" ? 10 : 1);
+				return readTitle();
+			}
+		}
+
+		expect(await new MyTestClass().outer()).toEqual([["Inner a"], ["Inner b"]]);
+		expect(() => getCurrentStepInfo()).toThrow("No Playwright step context found");
+	});
+});
+
+test.describe("step decorator - options", () => {
+	mockStepRunner();
+
+	test("should pass box and timeout to test.step", async () => {
+		class MyTestClass {
+			@step("Login as {{name}}", { box: true, timeout: 10_000 })
+			async login(name: string): Promise<string> {
+				return name;
+			}
+		}
+
+		await new MyTestClass().login("Alice");
+
+		expect(collectedSteps).toEqual(["Login as Alice"]);
+		expect(collectedOptions[0]?.box).toBe(true);
+		expect(collectedOptions[0]?.timeout).toBe(10_000);
+		expect(collectedOptions[0]?.location).toBeDefined();
+	});
+
+	test("should accept options without a description", async () => {
+		class MyTestClass {
+			@step({ box: true })
+			async foo(): Promise<void> {}
+		}
+
+		await new MyTestClass().foo();
+
+		expect(collectedSteps).toEqual(["MyTestClass.foo"]);
+		expect(collectedOptions[0]?.box).toBe(true);
+		expect(collectedOptions[0]?.timeout).toBeUndefined();
+	});
+
+	test("should merge step options over decorator defaults", async () => {
+		const boxedStep = createStepDecorator({ box: true, timeout: 5_000 });
+
+		class MyTestClass {
+			@boxedStep("Default options")
+			async first(): Promise<void> {}
+
+			@boxedStep("Overridden options", { timeout: 1_000 })
+			async second(): Promise<void> {}
+		}
+
+		const instance = new MyTestClass();
+		await instance.first();
+		await instance.second();
+
+		expect(collectedOptions.map(options => [options?.box, options?.timeout])).toEqual([
+			[true, 5_000],
+			[true, 1_000],
+		]);
+	});
+});
+
+test.describe("steps class decorator", () => {
+	mockStepRunner();
+
+	test("should wrap every async method with the default title", async () => {
+		@steps()
+		class MyPage {
+			async open(): Promise<string> {
+				return "opened";
+			}
+
+			async close(): Promise<void> {}
+
+			getName(): string {
+				return "page";
+			}
+		}
+
+		const page = new MyPage();
+		expect(await page.open()).toBe("opened");
+		await page.close();
+		expect(page.getName()).toBe("page");
+
+		expect(collectedSteps).toEqual(["MyPage.open", "MyPage.close"]);
+		expect(collectedLocations[0]?.file).toContain("playwright-step-decorator.test.ts");
+	});
+
+	test("should filter methods by include and exclude lists", async () => {
+		@steps({ include: ["open", /^fill/], exclude: ["fillHidden"] })
+		class MyPage {
+			async open(): Promise<void> {}
+			async fillName(): Promise<void> {}
+			async fillHidden(): Promise<void> {}
+			async close(): Promise<void> {}
+		}
+
+		const page = new MyPage();
+		await page.open();
+		await page.fillName();
+		await page.fillHidden();
+		await page.close();
+
+		expect(collectedSteps).toEqual(["MyPage.open", "MyPage.fillName"]);
+	});
+
+	test("should match every method against global and sticky patterns", async () => {
+		@steps({ include: [/^do/g, /^run/y] })
+		class Tasks {
+			async doA(): Promise<void> {}
+			async doB(): Promise<void> {}
+			async doC(): Promise<void> {}
+			async runA(): Promise<void> {}
+			async runB(): Promise<void> {}
+		}
+
+		const tasks = new Tasks();
+		await tasks.doA();
+		await tasks.doB();
+		await tasks.doC();
+		await tasks.runA();
+		await tasks.runB();
+
+		expect(collectedSteps).toEqual(["Tasks.doA", "Tasks.doB", "Tasks.doC", "Tasks.runA", "Tasks.runB"]);
+	});
+
+	test("should prefix titles and pass step options", async () => {
+		@steps({ titlePrefix: "Login page: ", box: true })
+		class LoginPage {
+			async open(): Promise<void> {}
+		}
+
+		await new LoginPage().open();
+
+		expect(collectedSteps).toEqual(["Login page: LoginPage.open"]);
+		expect(collectedOptions[0]?.box).toBe(true);
+	});
+
+	test("should let method-level @step override the class-level behaviour", async () => {
+		@steps({ titlePrefix: "Prefix: ", box: true })
+		class LoginPage {
+			@step("Login as {{name}}")
+			async login(name: string): Promise<string> {
+				return getStepInfo(this).titlePath[0] + ` (${name})`;
+			}
+
+			async logout(): Promise<void> {}
+		}
+
+		const page = new LoginPage();
+		expect(await page.login("Alice")).toBe("Login as Alice (Alice)");
+		await page.logout();
+
+		expect(collectedSteps).toEqual(["Login as Alice", "Prefix: LoginPage.logout"]);
+		expect(collectedOptions.map(options => options?.box)).toEqual([undefined, true]);
+	});
+});
+
+test.describe("step decorator - secret masking", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		configureSecretMasking({ keyPatterns: [...DEFAULT_SECRET_KEY_PATTERNS], mask: "******" });
+	});
+
+	test("should mask values of secret keys by default", async () => {
+		class MyTestClass {
+			@step("Login as {{user.name}} / {{user.password}} with [[1]]")
+			async login(user: { name: string; password: string }, apiKey: string): Promise<void> {
+				void user;
+				void apiKey; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().login({ name: "alice", password: "hunter2" }, "abc123");
+
+		expect(collectedSteps).toEqual(["Login as alice / ****** with ******"]);
+	});
+
+	test("should mask placeholder paths marked as secrets in the options", async () => {
+		class MyTestClass {
+			@step("Pay with {{card.number}} ({{card.holder}}), pin [[1]]", { secrets: ["card.number", "[[1]]"] })
+			async pay(card: { number: string; holder: string }, pin: string): Promise<void> {
+				void card;
+				void pin; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().pay({ number: "4111 1111 1111 1111", holder: "Alice" }, "1234");
+
+		expect(collectedSteps).toEqual(["Pay with ****** (Alice), pin ******"]);
+	});
+
+	test("should cover nested properties of a secret path", async () => {
+		class MyTestClass {
+			@step("Use {{credentials.user.name}}", { secrets: ["credentials"] })
+			async use(credentials: { user: { name: string } }): Promise<void> {
+				void credentials; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().use({ user: { name: "alice" } });
+
+		expect(collectedSteps).toEqual(["Use ******"]);
+	});
+
+	test("should mask values wrapped in a Secret", async () => {
+		class MyTestClass {
+			@step("Login as {{user}} with {{pass}} and {{options.pin}}")
+			async login(user: string, pass: Secret, options: { pin: Secret<number> }): Promise<string> {
+				void user;
+				void options; // Suppress unused warning
+				return pass.reveal();
+			}
+		}
+
+		const result = await new MyTestClass().login("alice", secret("hunter2"), { pin: secret(1234) });
+
+		expect(result).toBe("hunter2");
+		expect(collectedSteps).toEqual(["Login as alice with ****** and ******"]);
+	});
+
+	test("should not expose a Secret when converted to text", () => {
+		const value = secret("hunter2");
+
+		expect(String(value)).toBe("******");
+		expect(JSON.stringify({ value })).toBe('{"value":"******"}');
+		expect([value].join(", ")).toBe("******");
+	});
+
+	test("should use configured key patterns and mask", async () => {
+		configureSecretMasking({ keyPatterns: ["pin"], mask: "<hidden>" });
+
+		class MyTestClass {
+			@step("Enter {{pin}} and {{password}}")
+			async enter(pin: string, password: string): Promise<void> {
+				void pin;
+				void password; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().enter("1234", "visible");
+
+		expect(collectedSteps).toEqual(["Enter <hidden> and visible"]);
+	});
+});
+
+test.describe("step decorator - value serializers", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetSerializers();
+	});
+
+	class Money {
+		constructor(
+			readonly amount: number,
+			readonly currency: string
+		) {}
+	}
+
+	class MyTestClass {
+		@step("Value: {{value}}")
+		async render(value: unknown): Promise<void> {
+			void value; // Suppress unused warning
+		}
+
+		@step("Short: {{value}}", { maxLength: 10 })
+		async renderShort(value: unknown): Promise<void> {
+			void value; // Suppress unused warning
+		}
+
+		@step("Price: {{value}}", {
+			serializers: [{ type: Money, serialize: (money: Money) => `${money.amount.toFixed(2)} ${money.currency}` }],
+		})
+		async renderPrice(value: unknown): Promise<void> {
+			void value; // Suppress unused warning
+		}
+	}
+
+	test("should render plain objects as compact JSON", async () => {
+		await new MyTestClass().render({ name: "Alice", roles: ["admin"], password: "hunter2" });
+
+		expect(collectedSteps).toEqual(['Value: {"name":"Alice","roles":["admin"],"password":"******"}']);
+	});
+
+	test("should render bigints, shared and circular references in objects", async () => {
+		const shared = { id: 1 };
+		const node: Record<string, unknown> = { name: "root", children: [shared, shared] };
+		node.self = node;
+		const instance = new MyTestClass();
+		await instance.render({ count: BigInt(1), nested: { total: BigInt(10) } });
+		await instance.render({ a: shared, b: shared });
+		await instance.render(node);
+
+		expect(collectedSteps).toEqual([
+			'Value: {"count":"1","nested":{"total":"10"}}',
+			'Value: {"a":{"id":1},"b":{"id":1}}',
+			'Value: {"name":"root","children":[{"id":1},{"id":1}],"self":"[Circular]"}',
+		]);
+	});
+
+	test("should render arrays, dates, undefined and null", async () => {
+		const instance = new MyTestClass();
+		await instance.render([1, "two", { three: 3 }]);
+		await instance.render(new Date(Date.UTC(2024, 0, 2, 3, 4, 5)));
+		await instance.render(undefined);
+		await instance.render(null);
+
+		expect(collectedSteps).toEqual([
+			'Value: [1, two, {"three":3}]',
+			"Value: 2024-01-02T03:04:05.000Z",
+			"Value: undefined",
+			"Value: null",
+		]);
+	});
+
+	test("should render Locators by their selector description", async () => {
+		class FakeLocator {
+			locator() {}
+			evaluate() {}
+			page() {}
+			waitFor() {}
+			toString() {
+				return "getByRole('button', { name: 'Submit' })";
+			}
+		}
+
+		await new MyTestClass().render(new FakeLocator());
+		await new MyTestClass().render({ submit: new FakeLocator() });
+
+		expect(collectedSteps).toEqual([
+			"Value: getByRole('button', { name: 'Submit' })",
+			`Value: {"submit":"getByRole('button', { name: 'Submit' })"}`,
+		]);
+	});
+
+	test("should truncate long values", async () => {
+		const instance = new MyTestClass();
+		await instance.renderShort("a very long value");
+		await instance.render("x".repeat(150));
+
+		expect(collectedSteps[0]).toBe("Short: a very lo…");
+		expect(collectedSteps[1]).toBe(`Value: ${"x".repeat(99)}…`);
+	});
+
+	test("should use decorator serializers", async () => {
+		await new MyTestClass().renderPrice(new Money(12.5, "EUR"));
+
+		expect(collectedSteps).toEqual(["Price: 12.50 EUR"]);
+	});
+
+	test("should use globally registered serializers by type and predicate", async () => {
+		registerSerializer<Money>({ type: Money, serialize: money => `${money.currency} ${money.amount}` });
+		registerSerializer({ test: value => value === 42, serialize: () => "the answer" });
+
+		const instance = new MyTestClass();
+		await instance.render(new Money(5, "USD"));
+		await instance.render({ price: new Money(1, "EUR") });
+		await instance.render(42);
+
+		expect(collectedSteps).toEqual(["Value: USD 5", 'Value: {"price":"EUR 1"}', "Value: the answer"]);
+	});
+});
+
+test.describe("step decorator - placeholder expressions", () => {
+	mockStepRunner();
+
+	type Order = { id: number; lines: Array<{ name: string }>; customer?: { email?: string } | null };
+
+	test("should support array indexing and length", async () => {
+		class MyTestClass {
+			@step("Order {{order.id}}: {{order.lines[1].name}} of {{order.lines.length}} lines")
+			async submit(order: Order): Promise<void> {
+				void order; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().submit({ id: 7, lines: [{ name: "Apple" }, { name: "Pear" }] });
+
+		expect(collectedSteps).toEqual(["Order 7: Pear of 2 lines"]);
+	});
+
+	test("should support nested paths in index placeholders", async () => {
+		class MyTestClass {
+			@step("Order [[0].id] first line [[0].lines[0].name], note [[1]]")
+			async submit(order: Order, note: string): Promise<void> {
+				void order;
+				void note; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().submit({ id: 7, lines: [{ name: "Apple" }] }, "fragile");
+
+		expect(collectedSteps).toEqual(["Order 7 first line Apple, note fragile"]);
+	});
+
+	test("should support optional chaining and defaults", async () => {
+		class MyTestClass {
+			@step('Notify {{order.customer?.email}} / {{order.customer?.email ?? "nobody"}} / {{name ?? "anonymous"}}')
+			async notify(order: Order, name?: string): Promise<void> {
+				void order;
+				void name; // Suppress unused warning
+			}
+		}
+
+		const instance = new MyTestClass();
+		await instance.notify({ id: 1, lines: [], customer: null }, undefined);
+		await instance.notify({ id: 1, lines: [], customer: { email: "a@b.c" } }, "Alice");
+
+		expect(collectedSteps).toEqual(["Notify undefined / nobody / anonymous", "Notify a@b.c / a@b.c / Alice"]);
+	});
+
+	test("should apply filters", async () => {
+		class MyTestClass {
+			@step("{{name | upper}} has {{items | count}} items, first {{items | first | lower}}")
+			async summarize(name: string, items: string[]): Promise<void> {
+				void name;
+				void items; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().summarize("alice", ["Apple", "Pear"]);
+
+		expect(collectedSteps).toEqual(["ALICE has 2 items, first apple"]);
+	});
+
+	test("should keep text that is not a placeholder", async () => {
+		class MyTestClass {
+			@step("Matrix [[x]] and {{value}} and {{ unclosed")
+			async foo(value: string): Promise<void> {
+				void value; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().foo("v");
+
+		expect(collectedSteps).toEqual(["Matrix [[x]] and v and {{ unclosed"]);
+	});
+
+	test("should throw on invalid placeholder syntax and unknown filters", async () => {
+		class MyTestClass {
+			@step("Value {{value..prop}}")
+			async invalidPath(value: string): Promise<string> {
+				return value;
+			}
+
+			@step("Value {{value | shout}}")
+			async unknownFilter(value: string): Promise<string> {
+				return value;
+			}
+		}
+
+		const instance = new MyTestClass();
+		expect(() => instance.invalidPath("v")).toThrow(
+			"Invalid @step placeholder '{{value..prop}}' in method 'MyTestClass.invalidPath': expected a property name"
+		);
+		expect(() => instance.unknownFilter("v")).toThrow("unknown filter 'shout'");
+		expect(collectedSteps).toEqual([]);
+	});
+
+	test("should throw if an index path property does not exist", async () => {
+		class MyTestClass {
+			// @ts-expect-error Missing property, checked at runtime below
+			@step("Value [[0].missing]")
+			async foo(value: { prop: string }): Promise<void> {
+				void value; // Suppress unused warning
+			}
+		}
+
+		expect(() => new MyTestClass().foo({ prop: "x" })).toThrow(
+			"Property 'missing' does not exist on parameter 'value'"
+		);
+	});
+
+	test("should mask secret keys in index and bracket paths", async () => {
+		class MyTestClass {
+			@step("Users [[0][0].name] / {{users[0].password}}")
+			async foo(users: Array<{ name: string; password: string }>): Promise<void> {
+				void users; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().foo([{ name: "alice", password: "hunter2" }]);
+
+		expect(collectedSteps).toEqual(["Users alice / ******"]);
+	});
+});
+
+test.describe("step decorator - instance and method placeholders", () => {
+	mockStepRunner();
+
+	class Dialog {
+		constructor(
+			readonly name: string,
+			readonly page: { url(): string }
+		) {}
+
+		@step("Confirm {{this.name}} dialog on {{this.page.url()}}")
+		async confirm(): Promise<void> {}
+
+		@step("[{{$class}}] {{$method}} with {{$args}}")
+		async fill(field: string, value: number): Promise<void> {
+			void field;
+			void value; // Suppress unused warning
+		}
+
+		// @ts-expect-error Missing property, checked at runtime below
+		@step("Open {{this.missing}}")
+		async open(): Promise<void> {}
+
+		@step("Close {{this.name()}}")
+		async close(): Promise<void> {}
+	}
+
+	test("should resolve instance properties and method calls", async () => {
+		const dialog = new Dialog("Delete", { url: () => "https://example.com/items" });
+		await dialog.confirm();
+
+		expect(collectedSteps).toEqual(["Confirm Delete dialog on https://example.com/items"]);
+	});
+
+	test("should resolve the built-in tokens", async () => {
+		await new Dialog("Edit", { url: () => "" }).fill("amount", 42);
+
+		expect(collectedSteps).toEqual(["[Dialog] fill with [amount, 42]"]);
+	});
+
+	test("should mask secret arguments in {{$args}}", async () => {
+		class LoginPage {
+			@step("Fill {{$args}}")
+			async fill(user: string, password: string): Promise<void> {
+				void [user, password];
+			}
+
+			@step("Login {{$args}}", { secrets: ["pin"] })
+			async login(user: string, pin: string): Promise<void> {
+				void [user, pin];
+			}
+
+			@step("Enter {{$args}} then {{$args[1]}}", { secrets: ["[[1]]"] })
+			async enter(...codes: string[]): Promise<void> {
+				void codes;
+			}
+
+			@step("Sign {{$args}}", { secrets: ["keys"] })
+			async sign(user: string, ...keys: string[]): Promise<void> {
+				void [user, keys];
+			}
+		}
+
+		const page = new LoginPage();
+		await page.fill("alice", "s3cret");
+		await page.login("bob", "pw1");
+		await page.enter("1", "2", "3");
+		await page.sign("carol", "k1", "k2");
+
+		expect(collectedSteps).toEqual([
+			"Fill [alice, ******]",
+			"Login [bob, ******]",
+			"Enter [1, ******, 3] then ******",
+			"Sign [carol, ******, ******]",
+		]);
+	});
+
+	test("should throw if an instance property does not exist or is not a function", async () => {
+		const dialog = new Dialog("Edit", { url: () => "" });
+
+		expect(() => dialog.open()).toThrow("Property 'missing' does not exist on 'this'");
+		expect(() => dialog.close()).toThrow("Property 'name' is not a function");
+	});
+
+	test("should prefer parameters named like a built-in token", async () => {
+		class MyTestClass {
+			@step("Args: {{$args}}")
+			async foo($args: string): Promise<void> {
+				void $args; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().foo("mine");
+
+		expect(collectedSteps).toEqual(["Args: mine"]);
+	});
+});
+
+test.describe("step decorator - title functions", () => {
+	mockStepRunner();
+
+	test("should use the title returned by the function", async () => {
+		class LoginPage {
+			@step((user, role) => `Login ${user.name} as ${role}`, { box: true })
+			async login(user: { name: string }, role: string): Promise<string> {
+				return `${user.name}:${role}`;
+			}
+		}
+
+		const result = await new LoginPage().login({ name: "Alice" }, "admin");
+
+		expect(result).toBe("Alice:admin");
+		expect(collectedSteps).toEqual(["Login Alice as admin"]);
+		expect(collectedOptions[0]?.box).toBe(true);
+		expect(collectedLocations[0]?.file).toContain("playwright-step-decorator.test.ts");
+	});
+
+	test("should bind this to the instance", async () => {
+		class Dialog {
+			constructor(readonly name: string) {}
+
+			@step(function (action) {
+				return `${action} the ${this.name} dialog`;
+			})
+			async perform(action: "Confirm" | "Cancel"): Promise<void> {
+				void action; // Suppress unused warning
+			}
+		}
+
+		await new Dialog("Delete").perform("Confirm");
+
+		expect(collectedSteps).toEqual(["Confirm the Delete dialog"]);
+	});
+
+	test("should not depend on parameter names", async () => {
+		class MyTestClass {
+			@step(numbers => `Sum of ${numbers.a} + ${numbers.b}`)
+			async sum({ a, b }: { a: number; b: number }): Promise<number> {
+				return a + b;
+			}
+		}
+
+		expect(await new MyTestClass().sum({ a: 1, b: 2 })).toBe(3);
+		expect(collectedSteps).toEqual(["Sum of 1 + 2"]);
+	});
+
+	test("should reject title functions that do not match the method arguments", async () => {
+		class MyTestClass {
+			// @ts-expect-error The title function expects a number, but the method receives a string
+			@step((value: number) => `Value ${value.toFixed(1)}`)
+			async foo(value: string): Promise<string> {
+				return value;
+			}
+		}
+
+		expect(typeof new MyTestClass().foo).toBe("function");
+	});
+});
+
+test.describe("step decorator - compile-time placeholder validation", () => {
+	mockStepRunner();
+
+	test("should accept valid index and instance placeholders", async () => {
+		class MyTestClass {
+			readonly name = "page";
+
+			@step("[[0]] / [[1].name] / [[1].tags[0].length] / [[2]] / {{this.name}} / [[1]?.missing ?? 'none']")
+			async valid(id: string, user: { name: string; tags: string[] }, note?: string): Promise<void> {
+				void id;
+				void user;
+				void note; // Suppress unused warning
+			}
+
+			@step("[[3]]")
+			async rest(...values: string[]): Promise<void> {
+				void values; // Suppress unused warning
+			}
+		}
+
+		const instance = new MyTestClass();
+		await instance.valid("1", { name: "Alice", tags: ["admin"] }, "note");
+		await instance.rest("a", "b", "c", "d");
+
+		expect(collectedSteps).toEqual(["1 / Alice / 5 / note / page / none", "d"]);
+	});
+
+	test("should reject invalid index and instance placeholders", async () => {
+		const description: string = "[[5]]";
+
+		class MyTestClass {
+			readonly user = { name: "Alice" };
+
+			// @ts-expect-error Index 1 is out of bounds for a method with one parameter
+			@step("[[1]]")
+			async outOfBounds(value: string): Promise<string> {
+				return value;
+			}
+
+			// @ts-expect-error 'email' does not exist on the argument
+			@step("[[0].user.email]")
+			async invalidIndexPath(value: { user: { name: string } }): Promise<unknown> {
+				return value;
+			}
+
+			// @ts-expect-error 'email' does not exist on the instance property
+			@step("{{this.user.email}}")
+			async invalidThisPath(): Promise<void> {}
+
+			// Descriptions that are not string literals are only checked at runtime
+			@step(description)
+			async dynamic(value: string): Promise<string> {
+				return value;
+			}
+		}
+
+		expect(() => new MyTestClass().dynamic("a")).toThrow("Parameter index '5' is out of bounds");
+	});
+});
+
+test.describe("step decorator - parameter names", () => {
+	mockStepRunner();
+
+	test("should resolve parameters with default values", async () => {
+		class MyTestClass {
+			@step("Wait {{timeout}}ms for {{selector}}")
+			async waitFor(selector = pick("(body)"), timeout = 5000): Promise<void> {
+				void selector;
+				void timeout; // Suppress unused warning
+			}
+		}
+
+		const instance = new MyTestClass();
+		await instance.waitFor("#app", 1000);
+		await instance.waitFor("#app");
+
+		expect(collectedSteps).toEqual(["Wait 1000ms for #app", "Wait 5000ms for #app"]);
+	});
+
+	test("should resolve destructured parameters", async () => {
+		class MyTestClass {
+			@step("Register {{name}} ({{age}}) in {{city}} with [[1]] and {{rest}}")
+			async register(
+				{ name, age, address: { city } }: { name: string; age: number; address: { city: string } },
+				...rest: string[]
+			): Promise<void> {
+				void name;
+				void age;
+				void city;
+				void rest; // Suppress unused warning
+			}
+		}
+
+		await new MyTestClass().register({ name: "Alice", age: 30, address: { city: "Utrecht" } }, "a", "b");
+
+		expect(collectedSteps).toEqual(["Register Alice (30) in Utrecht with a and [a, b]"]);
+	});
+});
+
+function pick(value: string): string {
+	return value;
+}
+
+test.describe("step decorator - legacy experimentalDecorators", () => {
+	mockStepRunner();
+
+	test("should format descriptions with placeholders", async () => {
+		class LoginPage {
+			url = "/login";
+
+			async login(user: { name: string }, role: string): Promise<string> {
+				return `${user.name} (${role})`;
+			}
+
+			async open(): Promise<void> {}
+		}
+		decorateLegacyMethod(LoginPage.prototype, "login", step("Login as {{user.name}} [[1]] on {{this.url}}"));
+		decorateLegacyMethod(LoginPage.prototype, "open", step({ box: true }));
+
+		const page = new LoginPage();
+		const result = await page.login({ name: "Alice" }, "admin");
+		await page.open();
+
+		expect(result).toBe("Alice (admin)");
+		expect(collectedSteps).toEqual(["Login as Alice admin on /login", "LoginPage.open"]);
+		expect(collectedOptions[1]?.box).toBe(true);
+	});
+
+	test("should support title functions", async () => {
+		class Dialog {
+			async perform(action: string): Promise<void> {
+				void action; // Suppress unused warning
+			}
+		}
+		decorateLegacyMethod(
+			Dialog.prototype,
+			"perform",
+			step((action: string) => `Perform ${action}`)
+		);
+
+		await new Dialog().perform("Confirm");
+
+		expect(collectedSteps).toEqual(["Perform Confirm"]);
+	});
+
+	test("should provide the step context to getStepInfo", async () => {
+		class MyTestClass {
+			async outer(): Promise<string> {
+				return getStepInfo(this).titlePath.join(" > ");
+			}
+		}
+		decorateLegacyMethod(MyTestClass.prototype, "outer", step("Outer step"));
+
+		expect(await new MyTestClass().outer()).toBe("Outer step");
+	});
+
+	test("should capture the call site location", async () => {
+		class MyTestClass {
+			async myMethod(): Promise<void> {}
+		}
+		decorateLegacyMethod(MyTestClass.prototype, "myMethod", step());
+
+		const expectedLine = getCurrentLineNumber() + 1;
+		await new MyTestClass().myMethod();
+
+		expect(collectedLocations[0]?.file).toContain("playwright-step-decorator.test.ts");
+		expect(collectedLocations[0]?.line).toBe(expectedLine);
+	});
+
+	test("should wrap methods with the steps class decorator", async () => {
+		class LoginPage {
+			async open(): Promise<void> {}
+
+			async login(name: string): Promise<void> {
+				void name; // Suppress unused warning
+			}
+		}
+		decorateLegacyMethod(LoginPage.prototype, "login", step("Login as {{name}}"));
+		steps({ titlePrefix: "Page: " })(LoginPage);
+
+		const page = new LoginPage();
+		await page.open();
+		await page.login("Alice");
+
+		expect(collectedSteps).toEqual(["Page: LoginPage.open", "Login as Alice"]);
+	});
+
+	test("should throw when decorating something other than a method", () => {
+		const target = {};
+
+		expect(() =>
+			step()(target, "value", { value: "not a method" } as unknown as TypedPropertyDescriptor<() => Promise<void>>)
+		).toThrow("@step can only decorate methods and accessors, but 'value' is neither.");
+	});
+});
+
+test.describe("withStep", () => {
+	mockStepRunner();
+
+	test("should wrap an arrow function with placeholders", async () => {
+		const createUser = withStep("Create user {{name}} as {{role}} ([[0]])", async (name: string, role = "user") => {
+			return `${name}:${role}`;
+		});
+
+		const result: string = await createUser("Alice");
+
+		expect(result).toBe("Alice:user");
+		expect(collectedSteps).toEqual(["Create user Alice as user (Alice)"]);
+	});
+
+	test("should support title functions", async () => {
+		const deleteUser = withStep(
+			(id: number, hard: boolean) => `Delete user ${id}${hard ? " permanently" : ""}`,
+			async (id: number, hard: boolean) => {
+				void id;
+				void hard; // Suppress unused warning
+			}
+		);
+
+		await deleteUser(7, true);
+
+		expect(collectedSteps).toEqual(["Delete user 7 permanently"]);
+	});
+
+	test("should bind this for object literal methods", async () => {
+		const api = {
+			baseUrl: "https://example.com",
+			fetch: withStep("GET {{this.baseUrl}}{{path}}", async function (path: string) {
+				void path; // Suppress unused warning
+			}),
+		};
+
+		await api.fetch("/users");
+
+		expect(collectedSteps).toEqual(["GET https://example.com/users"]);
+	});
+
+	test("should provide the current step info", async () => {
+		const helper = withStep("Helper step", async () => getCurrentStepInfo().titlePath.join(" > "));
+
+		expect(await helper()).toBe("Helper step");
+	});
+
+	test("should turn synchronous functions into async steps", async () => {
+		const add = withStep("Add [[0]] and [[1]]", (a: number, b: number) => a + b);
+
+		const result = add(1, 2);
+
+		expect(result).toBeInstanceOf(Promise);
+		expect(await result).toBe(3);
+		expect(collectedSteps).toEqual(["Add 1 and 2"]);
+	});
+
+	test("should run synchronous functions synchronously with the sync option", () => {
+		const add = withStep("Add [[0]] and [[1]]", (a: number, b: number) => a + b, { sync: true });
+
+		const result: number = add(1, 2);
+
+		expect(result).toBe(3);
+		expect(collectedSteps).toEqual(["Add 1 and 2"]);
+	});
+
+	test("should capture the call site location", async () => {
+		const helper = withStep("Helper step", async () => {});
+
+		const expectedLine = getCurrentLineNumber() + 1;
+		await helper();
+
+		expect(collectedLocations[0]?.file).toContain("playwright-step-decorator.test.ts");
+		expect(collectedLocations[0]?.line).toBe(expectedLine);
+	});
+
+	test("should filter decorator frames from errors", async () => {
+		const failing = withStep("Failing step", async () => {
+			throw new Error("Helper failed");
+		});
+
+		const error = await failing().catch((caught: unknown) => caught as Error);
+
+		expect(error.message).toBe('Helper failed\n\nStep: anonymous ("Failing step")');
+		expect(error.stack).not.toContain("src/playwright-step-decorator");
+	});
+});
+
+test.describe("step decorator - synchronous methods and accessors", () => {
+	mockStepRunner();
+
+	test("should turn methods returning a promise into steps", async () => {
+		class Cart {
+			@step("Add {{item}} to the cart")
+			add(item: string): Promise<string> {
+				return Promise.resolve(`added ${item}`);
+			}
+		}
+
+		expect(await new Cart().add("apple")).toBe("added apple");
+		expect(collectedSteps).toEqual(["Add apple to the cart"]);
+	});
+
+	test("should run synchronous methods synchronously with the sync option", () => {
+		class Cart {
+			items: string[] = [];
+
+			@step("Count items", { sync: true })
+			count(): number {
+				return this.items.length;
+			}
+		}
+
+		const cart = new Cart();
+		cart.items.push("apple");
+		const count: number = cart.count();
+
+		expect(count).toBe(1);
+		expect(collectedSteps).toEqual(["Count items"]);
+	});
+
+	test("should throw errors of synchronous steps synchronously", () => {
+		class Cart {
+			@step("Validate", { sync: true })
+			validate(): void {
+				throw new Error("Cart is empty");
+			}
+		}
+
+		expect(() => new Cart().validate()).toThrow("Cart is empty");
+		expect(collectedSteps).toEqual(["Validate"]);
+	});
+
+	test("should run synchronous methods once when the step body is called later", async () => {
+		class Cart {
+			calls = 0;
+
+			@step("Count items", { sync: true })
+			count(): number {
+				return ++this.calls;
+			}
+		}
+		const deferredSteps: Array<Promise<unknown>> = [];
+		// oxlint-disable-next-line typescript-eslint/no-explicit-any
+		(test as any).step = (...stepArgs: Parameters<typeof mockTestStep>) => {
+			const reportedStep = Promise.resolve().then(() => mockTestStep(...stepArgs));
+			deferredSteps.push(reportedStep);
+			return reportedStep;
+		};
+
+		const cart = new Cart();
+		try {
+			expect(cart.count()).toBe(1);
+			expect(await Promise.all(deferredSteps)).toEqual([1]);
+		} finally {
+			// oxlint-disable-next-line typescript-eslint/no-explicit-any
+			(test as any).step = mockTestStep;
+		}
+
+		expect(cart.calls).toBe(1);
+		expect(collectedSteps).toEqual(["Count items"]);
+	});
+
+	test("should run synchronous steps inside their own step context", () => {
+		class Cart {
+			items: string[] = [];
+
+			@step("Check out", { sync: true })
+			checkOut(): string {
+				const title = getStepInfo(this).titlePath[0];
+				this.validate();
+				return title;
+			}
+
+			@step("Validate", { sync: true })
+			validate(): void {
+				if (this.items.length === 0) throw new Error("Cart is empty");
+			}
+		}
+
+		const cart = new Cart();
+		let error: unknown;
+		try {
+			cart.checkOut();
+		} catch (caught) {
+			error = caught;
+		}
+		cart.items.push("apple");
+
+		expect(cart.checkOut()).toBe("Check out");
+		expect(getStepErrorContext(error)?.breadcrumb).toEqual(["Cart.checkOut", "Cart.validate"]);
+		expect(collectedSteps).toEqual(["Check out", "Validate", "Check out", "Validate"]);
+	});
+
+	test("should wrap getters and setters", async () => {
+		class Form {
+			private value = "";
+
+			@step("Read the name", { sync: true })
+			get name(): string {
+				return this.value;
+			}
+
+			@step("Set the name to [[0]]")
+			set name(value: string) {
+				this.value = value;
+			}
+
+			@step("Read the title")
+			get title(): Promise<string> {
+				return Promise.resolve(`Form of ${this.value}`);
+			}
+		}
+
+		const form = new Form();
+		form.name = "Alice";
+
+		expect(form.name).toBe("Alice");
+		expect(await form.title).toBe("Form of Alice");
+		expect(collectedSteps).toEqual(["Set the name to Alice", "Read the name", "Read the title"]);
+	});
+
+	test("should wrap legacy accessors", () => {
+		class Form {
+			value = "";
+
+			get name(): string {
+				return this.value;
+			}
+
+			set name(value: string) {
+				this.value = value;
+			}
+		}
+		decorateLegacyMethod(Form.prototype, "name", step({ sync: true }));
+
+		const form = new Form();
+		form.name = "Bob";
+
+		expect(form.name).toBe("Bob");
+		expect(collectedSteps).toEqual(["Form.name", "Form.name"]);
+	});
+
+	test("should reject synchronous methods without the sync option at compile time", async () => {
+		class Cart {
+			// @ts-expect-error the method has to return a promise unless `sync` is set
+			@step("Count items")
+			count(): number {
+				return 0;
+			}
+		}
+
+		expect(await (new Cart().count() as unknown as Promise<number>)).toBe(0);
+	});
+});
+
+test.describe("step decorator - retry", () => {
+	mockStepRunner();
+
+	test("should retry a failing step until it passes", async () => {
+		class Menu {
+			calls = 0;
+
+			@step("Open menu", { retry: { attempts: 3, intervals: [1] } })
+			async open(): Promise<string> {
+				this.calls++;
+				if (this.calls < 3) throw new Error(`Menu did not open (${this.calls})`);
+				return "opened";
+			}
+		}
+
+		const menu = new Menu();
+
+		expect(await menu.open()).toBe("opened");
+		expect(menu.calls).toBe(3);
+		expect(collectedSteps).toEqual(["Open menu", "attempt 1/3", "attempt 2/3", "attempt 3/3"]);
+	});
+
+	test("should fail with an aggregated error when all attempts fail", async () => {
+		class Menu {
+			calls = 0;
+
+			@step("Open menu", { retry: { attempts: 2, intervals: [1] } })
+			async open(): Promise<void> {
+				this.calls++;
+				throw new Error(`Menu did not open (${this.calls})`);
+			}
+		}
+
+		const error = await new Menu().open().catch((caught: unknown) => caught);
+
+		expect(error).toBeInstanceOf(StepRetryError);
+		expect((error as StepRetryError).errors).toHaveLength(2);
+		expect((error as StepRetryError).message).toBe(
+			'Step "Open menu" failed after 2 attempt(s):\n  attempt 1: Menu did not open (1)\n  attempt 2: Menu did not open (2)' +
+				'\n\nStep: Menu.open ("Open menu")'
+		);
+	});
+
+	test("should not retry errors rejected by retryOn", async () => {
+		class Menu {
+			calls = 0;
+
+			@step("Open menu", { retry: { attempts: 3, retryOn: error => !(error instanceof TypeError) } })
+			async open(): Promise<void> {
+				this.calls++;
+				throw new TypeError("Menu is broken");
+			}
+		}
+
+		const menu = new Menu();
+
+		await expect(menu.open()).rejects.toThrow(TypeError);
+		expect(menu.calls).toBe(1);
+		expect(collectedSteps).toEqual(["Open menu", "attempt 1/3"]);
+	});
+
+	test("should wait the intervals between attempts", async () => {
+		class Menu {
+			@step("Open menu", { retry: { attempts: 3, intervals: [50, 100] } })
+			async open(): Promise<void> {
+				throw new Error("Menu did not open");
+			}
+		}
+
+		const start = Date.now();
+		await new Menu().open().catch(() => undefined);
+
+		expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+	});
+
+	test("should retry until the timeout is reached", async () => {
+		class Menu {
+			calls = 0;
+
+			@step("Open menu", { retry: { timeout: 200, intervals: [20] } })
+			async open(): Promise<void> {
+				this.calls++;
+				throw new Error("Menu did not open");
+			}
+		}
+
+		const menu = new Menu();
+		const error = await menu.open().catch((caught: unknown) => caught);
+
+		expect(error).toBeInstanceOf(StepRetryError);
+		expect(menu.calls).toBeGreaterThan(2);
+		expect(collectedSteps.slice(0, 3)).toEqual(["Open menu", "attempt 1", "attempt 2"]);
+	});
+
+	test("should run the first attempt in a child step as well", async () => {
+		class Menu {
+			@step("Open menu", { retry: { attempts: 2 } })
+			async open(): Promise<string> {
+				return getStepInfo(this).titlePath.join(" > ");
+			}
+		}
+
+		expect(await new Menu().open()).toBe("attempt 1/2");
+		expect(collectedSteps).toEqual(["Open menu", "attempt 1/2"]);
+	});
+
+	test("should not retry a step skipped from its body", async () => {
+		class Menu {
+			calls = 0;
+
+			@step("Open menu", { retry: { attempts: 3, intervals: [1] } })
+			async open(): Promise<string> {
+				this.calls++;
+				getStepInfo(this).skip(true, "No menu");
+				return "opened";
+			}
+		}
+
+		const menu = new Menu();
+
+		expect(await menu.open()).toBeUndefined();
+		expect(menu.calls).toBe(1);
+		expect(collectedSteps).toEqual(["Open menu", "attempt 1/3"]);
+	});
+
+	test("should run attempts in the step context of their attempt", async () => {
+		class Menu {
+			calls = 0;
+
+			@step("Open menu", { retry: { attempts: 2, intervals: [1] } })
+			async open(): Promise<string[]> {
+				this.calls++;
+				const stepInfo = getStepInfo(this);
+				await stepInfo.attach(`call ${this.calls}`, { body: "" });
+				if (this.calls < 2) throw new Error("Menu did not open");
+				return [stepInfo.titlePath[0], getCurrentStepInfo()?.titlePath[0] ?? ""];
+			}
+		}
+
+		expect(await new Menu().open()).toEqual(["attempt 2/2", "attempt 2/2"]);
+		expect(collectedAttachments.map(({ step, name }) => [step, name])).toEqual([
+			["attempt 1/2", "call 1"],
+			["attempt 2/2", "call 2"],
+		]);
+	});
+});
+
+test.describe("step decorator - soft steps", () => {
+	mockStepRunner();
+
+	// Soft failures are recorded like those of `expect.soft`, which would fail the running test
+	const collectedSoftErrors: unknown[] = [];
+
+	test.beforeEach(() => {
+		collectedSoftErrors.length = 0;
+		Object.assign(test.info(), { _failWithError: (error: unknown) => collectedSoftErrors.push(error) });
+	});
+
+	test.afterEach(() => {
+		delete (test.info() as { _failWithError?: unknown })._failWithError;
+	});
+
+	test("should record a failing soft step and keep running", async () => {
+		class Journey {
+			@step("Verify footer links", { soft: true })
+			async verifyFooter(): Promise<string> {
+				throw new Error("Footer link is broken");
+			}
+
+			@step("Verify header")
+			async verifyHeader(): Promise<string> {
+				return "header ok";
+			}
+		}
+
+		const journey = new Journey();
+		const footer = await journey.verifyFooter();
+		const header = await journey.verifyHeader();
+
+		expect(footer).toBeUndefined();
+		expect(header).toBe("header ok");
+		expect(collectedSteps).toEqual(["Verify footer links", "Verify header"]);
+		expect(collectedSoftErrors.map(error => (error as Error).message)).toEqual([
+			'Footer link is broken\n\nStep: Journey.verifyFooter ("Verify footer links")',
+		]);
+		expect(getSoftStepFailures().map(failure => failure.title)).toEqual(["Verify footer links"]);
+	});
+
+	test("should support the softStep decorator and synchronous steps", async () => {
+		class Journey {
+			@softStep("Check banner [[0]]")
+			async checkBanner(name: string): Promise<void> {
+				throw new Error(`Banner ${name} is missing`);
+			}
+
+			@softStep("Count sections", { sync: true })
+			countSections(): number {
+				throw new Error("No sections");
+			}
+		}
+
+		const journey = new Journey();
+		await journey.checkBanner("cookies");
+		const count = journey.countSections();
+
+		expect(count).toBeUndefined();
+		expect(getSoftStepFailures().map(failure => failure.title)).toEqual(["Check banner cookies", "Count sections"]);
+		expect(collectedSoftErrors).toHaveLength(2);
+	});
+
+	test("should not record passing soft steps", async () => {
+		class Journey {
+			@softStep("Verify footer links")
+			async verifyFooter(): Promise<string> {
+				return "ok";
+			}
+		}
+
+		expect(await new Journey().verifyFooter()).toBe("ok");
+		expect(getSoftStepFailures()).toEqual([]);
+		expect(collectedSoftErrors).toEqual([]);
+	});
+
+	test("should skip the test when a soft step calls test.skip()", async () => {
+		class Journey {
+			@softStep("Check the mobile menu")
+			async checkMobileMenu(): Promise<void> {
+				test.skip(true, "There is no mobile menu");
+			}
+		}
+
+		await new Journey().checkMobileMenu();
+		// Only reached if the soft step recorded the skip as a failure instead of ending the test
+		throw new Error(`The test was not skipped, soft failures: ${getSoftStepFailures().length}`);
+	});
+
+	test("should attach a summary of the soft failures", async () => {
+		class Journey {
+			@softStep("Verify footer links")
+			async verifyFooter(): Promise<void> {
+				throw new Error("Footer link is broken\nwith details");
+			}
+
+			@softStep("Verify cookie banner")
+			async verifyBanner(): Promise<void> {
+				throw new Error("Banner is missing");
+			}
+		}
+
+		const journey = new Journey();
+		await journey.verifyFooter();
+		await journey.verifyBanner();
+		await attachSoftStepSummary();
+
+		const attachment = test.info().attachments.find(({ name }) => name === SOFT_STEP_SUMMARY_ATTACHMENT);
+		const summary = attachment?.body?.toString() ?? "";
+
+		expect(attachment?.contentType).toBe("text/plain");
+		expect(summary).toContain("2 soft step(s) failed:");
+		expect(summary).toContain("1. Verify footer links: Footer link is broken\n   at ");
+		expect(summary).toContain("2. Verify cookie banner: Banner is missing");
+	});
+});
+
+test.describe("step decorator - conditional skipping", () => {
+	mockStepRunner();
+
+	test("should skip the step without running the method", async () => {
+		class CookieBanner {
+			calls = 0;
+			visible = false;
+
+			@step("Accept cookies", { skipIf: (self: CookieBanner) => !self.visible, reason: "No cookie banner" })
+			async accept(): Promise<string> {
+				this.calls++;
+				return "accepted";
+			}
+		}
+
+		const banner = new CookieBanner();
+		const skippedResult = await banner.accept();
+		banner.visible = true;
+		const result = await banner.accept();
+
+		expect(skippedResult).toBeUndefined();
+		expect(result).toBe("accepted");
+		expect(banner.calls).toBe(1);
+		expect(collectedSteps).toEqual(["Accept cookies", "Accept cookies"]);
+		expect(collectedSkips).toEqual([{ step: "Accept cookies", reason: "No cookie banner" }]);
+	});
+
+	test("should pass the arguments to an async predicate", async () => {
+		class Features {
+			enabled = ["search"];
+
+			@step("Use feature {{name}}", {
+				skipIf: async (self: Features, name: string) => !self.enabled.includes(name),
+			})
+			async use(name: string): Promise<string> {
+				return name;
+			}
+		}
+
+		const features = new Features();
+		await features.use("search");
+		await features.use("chat");
+
+		expect(collectedSkips).toEqual([{ step: "Use feature chat", reason: undefined }]);
+	});
+
+	test("should return the fallback of a skipped method", async () => {
+		class Dialog {
+			@step("Read the message of [[0]]", {
+				skipIf: () => true,
+				skipFallback: (_self: Dialog, name: string) => `no ${name}`,
+			})
+			async readMessage(name: string): Promise<string> {
+				return `message of ${name}`;
+			}
+		}
+
+		expect(await new Dialog().readMessage("dialog")).toBe("no dialog");
+	});
+
+	test("should skip plain functions wrapped with withStep", async () => {
+		const greet = withStep("Greet {{name}}", async (name: string) => `Hello ${name}`, {
+			skipIf: (_self: unknown, name: string) => name === "nobody",
+			skipFallback: () => "",
+		});
+
+		expect(await greet("nobody")).toBe("");
+		expect(await greet("Alice")).toBe("Hello Alice");
+		expect(collectedSkips).toEqual([{ step: "Greet nobody", reason: undefined }]);
+	});
+});
+
+test.describe("configureSteps", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepConfig();
+	});
+
+	test("should apply the title template and prefix", async () => {
+		@steps({ titlePrefix: "Login: " })
+		class LoginPage {
+			async open(): Promise<void> {}
+
+			@step("Login as {{name}}")
+			async login(name: string): Promise<void> {
+				void name; // Suppress unused warning
+			}
+		}
+		configureSteps({ titleTemplate: "{{$class}} › {{$method}}", titlePrefix: "[UI] " });
+
+		const page = new LoginPage();
+		await page.open();
+		await page.login("Alice");
+
+		expect(collectedSteps).toEqual(["[UI] Login: LoginPage › open", "[UI] Login as Alice"]);
+	});
+
+	test("should merge configuration changes", () => {
+		configureSteps({ titlePrefix: "[UI] " });
+		configureSteps({ placeholderErrors: "warn" });
+
+		expect(getStepConfig()).toEqual({ titlePrefix: "[UI] ", placeholderErrors: "warn" });
+	});
+
+	test("should apply default step options below the options of the decorator", async () => {
+		class MyTestClass {
+			@step()
+			async plain(): Promise<void> {}
+
+			@step({ box: false })
+			async unboxed(): Promise<void> {}
+		}
+		configureSteps({ defaults: { box: true, timeout: 5_000 } });
+
+		const instance = new MyTestClass();
+		await instance.plain();
+		await instance.unboxed();
+
+		expect(collectedOptions.map(options => [options?.box, options?.timeout])).toEqual([
+			[true, 5_000],
+			[false, 5_000],
+		]);
+	});
+
+	test("should warn about placeholder errors and keep the placeholders", async () => {
+		class MyTestClass {
+			// @ts-expect-error Invalid placeholders, checked at runtime below
+			@step("Open {{page}} with {{user.email}} [[3]]")
+			async open(user: { name: string }): Promise<void> {
+				void user; // Suppress unused warning
+			}
+		}
+		configureSteps({ placeholderErrors: "warn" });
+		const warnings: string[] = [];
+		const originalWarn = console.warn;
+		console.warn = (message: string) => warnings.push(message);
+
+		try {
+			await new MyTestClass().open({ name: "Alice" });
+		} finally {
+			console.warn = originalWarn;
+		}
+
+		expect(collectedSteps).toEqual(["Open {{page}} with {{user.email}} [[3]]"]);
+		expect(warnings).toEqual([
+			"Missing function parameter 'page' in method 'MyTestClass.open'. Please check your @step decorator placeholders.",
+			"Invalid @step placeholder '{{user.email}}' in method 'MyTestClass.open': Property 'email' does not exist on parameter 'user'. Please check your @step decorator placeholders.",
+			"Parameter index '3' is out of bounds in method 'MyTestClass.open'. This method received 1 argument(s), but the @step decorator references index 3. Please check your @step decorator placeholders.",
+		]);
+	});
+
+	test("should render missing placeholders", async () => {
+		class MyTestClass {
+			@step("Open {{page}} for {{user.name}}")
+			async open(user: { name: string }): Promise<void> {
+				void user; // Suppress unused warning
+			}
+
+			@step("Broken {{user.}}")
+			async broken(user: { name: string }): Promise<void> {
+				void user; // Suppress unused warning
+			}
+		}
+		configureSteps({ placeholderErrors: "missing" });
+
+		await new MyTestClass().open({ name: "Alice" });
+		await new MyTestClass().broken({ name: "Alice" });
+
+		expect(collectedSteps).toEqual(["Open <missing> for Alice", "Broken {{user.}}"]);
+	});
+
+	test("should skip ignored stack fragments when capturing the location", async () => {
+		class MyTestClass {
+			@step()
+			async myMethod(): Promise<void> {}
+		}
+		configureSteps({ ignoredStackFragments: ["playwright-step-decorator.test.ts"] });
+
+		await new MyTestClass().myMethod();
+
+		expect(collectedLocations[0]?.file ?? "").not.toContain("playwright-step-decorator.test.ts");
+	});
+
+	test("should use the configured stack filter fragments", async () => {
+		class MyTestClass {
+			@step()
+			async fail(): Promise<void> {
+				throw new Error("Failed");
+			}
+		}
+		configureSteps({ stackFilterFragments: ["node_modules"] });
+
+		const error = await new MyTestClass().fail().then(
+			() => undefined,
+			(caught: unknown) => caught as Error
+		);
+
+		expect(error?.stack).toContain("src/playwright-step-decorator");
+		expect(error?.stack).not.toContain("node_modules");
+	});
+});
+
+const configuredTest = test.extend<StepConfigFixtures>(stepConfigFixtures);
+
+configuredTest.describe("stepConfigFixtures", () => {
+	configuredTest.use({ stepConfig: { titlePrefix: "[API] " } });
+
+	configuredTest("should apply the step configuration of the test", () => {
+		expect(getStepConfig().titlePrefix).toBe("[API] ");
+	});
+});
+
+test.describe("step plugins", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepPlugins();
+	});
+
+	test("should run the hooks around a passing step", async () => {
+		const events: Array<[string, StepEvent]> = [];
+		class LoginPage {
+			@step("Login as {{user}}")
+			async login(user: string): Promise<string> {
+				events.push(["body", getStepInfo(this) as unknown as StepEvent]);
+				return `token of ${user}`;
+			}
+		}
+		registerStepPlugin({
+			name: "recorder",
+			beforeStep: async event => {
+				await delay(1);
+				events.push(["before", event]);
+			},
+			afterStep: event => void events.push(["after", event]),
+			onStepError: event => void events.push(["error", event]),
+		});
+
+		const result = await new LoginPage().login("alice");
+
+		expect(result).toBe("token of alice");
+		expect(events.map(([hook]) => hook)).toEqual(["before", "body", "after"]);
+		const [[, before], , [, after]] = events;
+		expect(before).toEqual({
+			className: "LoginPage",
+			methodName: "login",
+			title: "Login as alice",
+			args: ["alice"],
+			stepInfo: expect.objectContaining({ titlePath: ["Login as alice"] }),
+		});
+		expect(after).toMatchObject({ status: "passed", result: "token of alice" });
+		expect((after as StepEndEvent).duration).toBeGreaterThanOrEqual(0);
+	});
+
+	test("should run onStepError and afterStep when a step fails", async () => {
+		const events: string[] = [];
+		let errorEvent: StepErrorEvent | undefined;
+		class MyTestClass {
+			@step()
+			async fail(): Promise<void> {
+				throw new Error("Failed");
+			}
+		}
+		registerStepPlugin({
+			name: "recorder",
+			onStepError: event => {
+				errorEvent = event;
+				events.push("error");
+			},
+			afterStep: event => void events.push(`after ${event.status}`),
+		});
+
+		await expect(new MyTestClass().fail()).rejects.toThrow("Failed");
+
+		expect(events).toEqual(["error", "after failed"]);
+		const error = errorEvent?.error as Error;
+		expect(error).toBeInstanceOf(Error);
+		expect(error.stack).not.toContain("src/playwright-step-decorator");
+	});
+
+	test("should run only afterStep when a step is skipped from its body", async () => {
+		const events: string[] = [];
+		class MyTestClass {
+			@step()
+			async skip(): Promise<void> {
+				getStepInfo(this).skip(true, "Not needed");
+			}
+		}
+		registerStepPlugin({
+			name: "recorder",
+			onStepError: () => void events.push("error"),
+			afterStep: event => void events.push(`after ${event.status}`),
+		});
+
+		await new MyTestClass().skip();
+
+		expect(events).toEqual(["after skipped"]);
+	});
+
+	test("should run plugins in the order they were registered", async () => {
+		const events: string[] = [];
+		const plugin = (name: string) => ({
+			name,
+			beforeStep: () => void events.push(`${name} before`),
+			afterStep: () => void events.push(`${name} after`),
+		});
+		const run = withStep("Run", async () => undefined);
+		registerStepPlugin(plugin("first"));
+		const unregister = registerStepPlugin(plugin("second"));
+
+		await run();
+		unregister();
+		await run();
+
+		expect(events).toEqual([
+			"first before",
+			"second before",
+			"first after",
+			"second after",
+			"first before",
+			"first after",
+		]);
+	});
+
+	test("should replace a plugin registered with the same name", async () => {
+		const events: string[] = [];
+		const run = withStep("Run", async () => undefined);
+		registerStepPlugin({ name: "logger", beforeStep: () => void events.push("old") });
+		registerStepPlugin({ name: "logger", beforeStep: () => void events.push("new") });
+
+		await run();
+
+		expect(events).toEqual(["new"]);
+	});
+
+	test("should provide the step context and function name to hooks", async () => {
+		const events: StepEvent[] = [];
+		const openPage = withStep("Open {{url}}", async function openPage(url: string) {
+			return url;
+		});
+		registerStepPlugin({
+			name: "recorder",
+			beforeStep: event => {
+				expect(getCurrentStepInfo()).toBe(event.stepInfo);
+				events.push(event);
+			},
+		});
+
+		await openPage("/home");
+
+		expect(events).toMatchObject([{ className: "", methodName: "openPage", title: "Open /home", args: ["/home"] }]);
+	});
+
+	test("should fail the step when a hook throws", async () => {
+		let ran = false;
+		class MyTestClass {
+			@step()
+			async run(): Promise<void> {
+				ran = true;
+			}
+		}
+		registerStepPlugin({
+			name: "broken",
+			beforeStep: () => {
+				throw new Error("Hook failed");
+			},
+		});
+
+		await expect(new MyTestClass().run()).rejects.toThrow("Hook failed");
+		expect(ran).toBe(false);
+	});
+
+	test("should not run hooks for skipped steps", async () => {
+		const events: string[] = [];
+		class MyTestClass {
+			@step({ skipIf: () => true })
+			async run(): Promise<void> {}
+		}
+		registerStepPlugin({ name: "recorder", beforeStep: () => void events.push("before") });
+
+		await new MyTestClass().run();
+
+		expect(collectedSkips).toHaveLength(1);
+		expect(events).toEqual([]);
+	});
+});
+
+test.describe("step value attachments", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepConfig();
+		resetSerializers();
+	});
+
+	const attachedValues = () =>
+		collectedAttachments.map(attachment => JSON.parse(String(attachment.body)) as Record<string, unknown>);
+
+	test("should attach the arguments and the return value as JSON", async () => {
+		class CartPage {
+			@step("Add {{quantity}} x {{product.name}}", { attachValues: true })
+			async addProduct(product: { name: string; price: number }, quantity = 1): Promise<{ total: number }> {
+				return { total: product.price * quantity };
+			}
+		}
+
+		await new CartPage().addProduct({ name: "Apple", price: 2 }, 3);
+
+		expect(collectedAttachments).toEqual([
+			{
+				step: "Add 3 x Apple",
+				name: STEP_VALUES_ATTACHMENT,
+				body: expect.any(String),
+				contentType: "application/json",
+			},
+		]);
+		expect(attachedValues()).toEqual([
+			{ arguments: { product: { name: "Apple", price: 2 }, quantity: 3 }, result: { total: 6 } },
+		]);
+	});
+
+	test("should not attach values by default", async () => {
+		class MyTestClass {
+			@step()
+			async run(value: string): Promise<string> {
+				return value;
+			}
+		}
+
+		await new MyTestClass().run("a");
+
+		expect(collectedAttachments).toEqual([]);
+	});
+
+	test("should attach only the arguments when the step fails", async () => {
+		class MyTestClass {
+			@step({ attachValues: true })
+			async fail(reason: string): Promise<void> {
+				throw new Error(reason);
+			}
+		}
+
+		await expect(new MyTestClass().fail("broken")).rejects.toThrow("broken");
+
+		expect(attachedValues()).toEqual([{ arguments: { reason: "broken" } }]);
+	});
+
+	test("should mask secrets", async () => {
+		class LoginPage {
+			@step("Login as {{user.name}}", { attachValues: true, secrets: ["user.pin"] })
+			async login(
+				user: { name: string; pin: number; token: string },
+				password: string,
+				apiSecret: Secret
+			): Promise<void> {
+				void [user, password, apiSecret]; // Suppress unused warning
+			}
+		}
+
+		await new LoginPage().login({ name: "alice", pin: 1234, token: "abc" }, "hunter2", secret("key"));
+
+		expect(attachedValues()).toEqual([
+			{
+				arguments: { user: { name: "alice", pin: "******", token: "******" }, password: "******", apiSecret: "******" },
+				result: undefined,
+			},
+		]);
+	});
+
+	test("should use serializers and leave out binary data, pages and locators", async () => {
+		class Money {
+			constructor(readonly amount: number) {}
+		}
+		registerSerializer<Money>({ type: Money, serialize: money => `€${money.amount.toFixed(2)}` });
+		const page = { goto() {}, url: () => "https://example.com", locator() {}, context() {} };
+		class MyTestClass {
+			@step({ attachValues: { result: false } })
+			async upload(
+				file: Buffer,
+				price: Money,
+				target: { page: typeof page },
+				when: Date,
+				callback: () => void
+			): Promise<string> {
+				void [file, price, target, when, callback]; // Suppress unused warning
+				return "ignored";
+			}
+		}
+
+		await new MyTestClass().upload(
+			Buffer.from("data"),
+			new Money(5),
+			{ page },
+			new Date("2024-01-01T00:00:00.000Z"),
+			function notify() {}
+		);
+
+		expect(attachedValues()).toEqual([
+			{
+				arguments: {
+					file: "[binary, 4 bytes]",
+					price: "€5.00",
+					target: { page: "Page(https://example.com)" },
+					when: "2024-01-01T00:00:00.000Z",
+					callback: "[Function notify]",
+				},
+			},
+		]);
+	});
+
+	test("should key destructured and rest arguments", async () => {
+		const fill = withStep(
+			"Fill form",
+			async ({ name }: { name: string }, ...values: number[]) => {
+				void [name, values]; // Suppress unused warning
+			},
+			{ attachValues: { result: false } }
+		);
+
+		await fill({ name: "Alice" }, 1, 2);
+
+		expect(attachedValues()).toEqual([{ arguments: { "[[0]]": { name: "Alice" }, values: [1, 2] } }]);
+	});
+
+	test("should limit the size of the attached values", async () => {
+		class MyTestClass {
+			@step({ attachValues: { maxLength: 5, maxSize: 50 } })
+			async run(text: string, items: number[]): Promise<void> {
+				void [text, items]; // Suppress unused warning
+			}
+		}
+		const circular: Record<string, unknown> = {};
+		circular.self = circular;
+
+		await new MyTestClass().run(
+			"a long text",
+			Array.from({ length: 100 }, (_, index) => index)
+		);
+
+		expect(attachedValues()).toEqual([
+			{ arguments: { text: "a lo…", items: "[291 characters, larger than the limit of 50]" } },
+		]);
+	});
+
+	test("should mark circular references", async () => {
+		const run = withStep("Run", async (value: unknown) => value, { attachValues: { arguments: false } });
+		const circular: Record<string, unknown> = { name: "root" };
+		circular.self = circular;
+
+		await run(circular);
+
+		expect(attachedValues()).toEqual([{ result: { name: "root", self: "[Circular]" } }]);
+	});
+
+	test("should convert references repeated without a cycle", async () => {
+		const run = withStep("Run", async (value: unknown) => value, { attachValues: { arguments: false } });
+		const shared = { id: 1 };
+
+		await run({ a: shared, b: shared, list: [shared, shared] });
+
+		expect(attachedValues()).toEqual([{ result: { a: { id: 1 }, b: { id: 1 }, list: [{ id: 1 }, { id: 1 }] } }]);
+	});
+
+	test("should attach values of every step when configured globally", async () => {
+		const run = withStep("Run", async (value: number) => value * 2);
+		configureSteps({ defaults: { attachValues: true } });
+
+		await run(2);
+
+		expect(attachedValues()).toEqual([{ arguments: { value: 2 }, result: 4 }]);
+	});
+});
+
+test.describe("failure evidence", () => {
+	mockStepRunner();
+
+	const createPage = (overrides: Record<string, unknown> = {}) => ({
+		goto: async () => undefined,
+		url: () => "https://example.com/checkout",
+		locator: () => undefined,
+		context: () => undefined,
+		screenshot: async () => Buffer.from("png"),
+		content: async () => "<html></html>",
+		...overrides,
+	});
+
+	test("should attach a screenshot and the URL of the page to the failing step", async () => {
+		class CheckoutPage {
+			constructor(readonly page: ReturnType<typeof createPage>) {}
+
+			@step("Pay", { captureOnFailure: true })
+			async pay(): Promise<void> {
+				throw new Error("Payment failed");
+			}
+		}
+
+		await expect(new CheckoutPage(createPage()).pay()).rejects.toThrow("Payment failed");
+
+		expect(collectedAttachments).toEqual([
+			{
+				step: "Pay",
+				name: FAILURE_EVIDENCE_ATTACHMENTS.screenshot,
+				body: Buffer.from("png"),
+				contentType: "image/png",
+			},
+			{
+				step: "Pay",
+				name: FAILURE_EVIDENCE_ATTACHMENTS.url,
+				body: "https://example.com/checkout",
+				contentType: "text/plain",
+			},
+		]);
+	});
+
+	test("should not capture evidence when the step passes or the option is not set", async () => {
+		class CheckoutPage {
+			constructor(readonly page: ReturnType<typeof createPage>) {}
+
+			@step({ captureOnFailure: true })
+			async pass(): Promise<void> {}
+
+			@step()
+			async fail(): Promise<void> {
+				throw new Error("Failed");
+			}
+		}
+		const checkoutPage = new CheckoutPage(createPage());
+
+		await checkoutPage.pass();
+		await expect(checkoutPage.fail()).rejects.toThrow("Failed");
+
+		expect(collectedAttachments).toEqual([]);
+	});
+
+	test("should not capture evidence when the step is skipped from its body", async () => {
+		class CheckoutPage {
+			constructor(readonly page: ReturnType<typeof createPage>) {}
+
+			@step("Pay", { captureOnFailure: true })
+			async pay(): Promise<void> {
+				getStepInfo(this).skip(true, "Nothing to pay");
+			}
+		}
+
+		await new CheckoutPage(createPage()).pay();
+
+		expect(collectedSkips).toEqual([{ step: "Pay", reason: "Nothing to pay" }]);
+		expect(collectedAttachments).toEqual([]);
+	});
+
+	test("should find the page through a custom property or getPage()", async () => {
+		class WidgetPage {
+			constructor(private readonly browserPage: ReturnType<typeof createPage>) {}
+
+			@step({ captureOnFailure: { pageProperty: "browserPage", screenshot: false, html: true } })
+			async fail(): Promise<void> {
+				void this.browserPage; // Suppress unused warning
+				throw new Error("Failed");
+			}
+		}
+		class DialogPage {
+			getPage() {
+				return createPage({ url: () => "https://example.com/dialog" });
+			}
+
+			@step({ captureOnFailure: { screenshot: false } })
+			async fail(): Promise<void> {
+				throw new Error("Failed");
+			}
+		}
+
+		await expect(new WidgetPage(createPage()).fail()).rejects.toThrow("Failed");
+		await expect(new DialogPage().fail()).rejects.toThrow("Failed");
+
+		expect(collectedAttachments.map(({ name, body }) => [name, body])).toEqual([
+			[FAILURE_EVIDENCE_ATTACHMENTS.url, "https://example.com/checkout"],
+			[FAILURE_EVIDENCE_ATTACHMENTS.html, "<html></html>"],
+			[FAILURE_EVIDENCE_ATTACHMENTS.url, "https://example.com/dialog"],
+		]);
+	});
+
+	test("should capture evidence only on the innermost failing step", async () => {
+		class CheckoutPage {
+			constructor(readonly page: ReturnType<typeof createPage>) {}
+
+			@step("Checkout", { captureOnFailure: { screenshot: false } })
+			async checkout(): Promise<void> {
+				await this.pay();
+			}
+
+			@step("Pay", { captureOnFailure: { screenshot: false } })
+			async pay(): Promise<void> {
+				throw new Error("Payment failed");
+			}
+		}
+
+		await expect(new CheckoutPage(createPage()).checkout()).rejects.toThrow("Payment failed");
+
+		expect(collectedAttachments.map(({ step, name }) => [step, name])).toEqual([
+			["Pay", FAILURE_EVIDENCE_ATTACHMENTS.url],
+		]);
+	});
+
+	test("should keep the original error when capturing fails", async () => {
+		const page = createPage({
+			screenshot: async () => {
+				throw new Error("Target page has been closed");
+			},
+		});
+		class CheckoutPage {
+			constructor(readonly _page: ReturnType<typeof createPage>) {}
+
+			@step("Pay", { captureOnFailure: true })
+			async pay(): Promise<void> {
+				throw new Error("Payment failed");
+			}
+		}
+
+		await expect(new CheckoutPage(page).pay()).rejects.toThrow("Payment failed");
+
+		expect(collectedAttachments.map(({ name }) => name)).toEqual([FAILURE_EVIDENCE_ATTACHMENTS.url]);
+	});
+
+	test("should skip capturing when the instance has no page", async () => {
+		const fail = withStep(
+			"Fail",
+			async () => {
+				throw new Error("Failed");
+			},
+			{ captureOnFailure: true }
+		);
+
+		await expect(fail()).rejects.toThrow("Failed");
+
+		expect(collectedAttachments).toEqual([]);
+	});
+});
+
+test.describe("step error context", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepConfig();
+	});
+
+	class CardInput {
+		@step("Type {{value}}")
+		async type(value: string, password: string): Promise<void> {
+			void password; // Suppress unused warning
+			throw Object.assign(new TypeError(`Cannot type ${value}`), { cause: "detached" });
+		}
+	}
+
+	class PaymentForm {
+		readonly card = new CardInput();
+
+		@step("Fill the payment form")
+		async fill(card: { number: string; cvc: Secret }): Promise<void> {
+			await this.card.type(card.number, "hunter2");
+		}
+	}
+
+	class CheckoutPage {
+		readonly form = new PaymentForm();
+
+		@step("Pay")
+		async pay(): Promise<void> {
+			await this.form.fill({ number: "4111", cvc: secret("123") });
+		}
+	}
+
+	const catchError = (promise: Promise<unknown>) =>
+		promise.then(
+			() => undefined,
+			(error: unknown) => error as StepError
+		);
+
+	test("should add the breadcrumb, title and masked arguments of the innermost step", async () => {
+		const error = await catchError(new CheckoutPage().pay());
+
+		expect(error).toBeInstanceOf(TypeError);
+		expect((error as { cause?: unknown }).cause).toBe("detached");
+		expect(getStepErrorContext(error)).toEqual({
+			breadcrumb: ["CheckoutPage.pay", "PaymentForm.fill", "CardInput.type"],
+			title: "Type 4111",
+			arguments: { value: "4111", password: "******" },
+		});
+		expect(Object.keys(error ?? {})).not.toContain("stepContext");
+	});
+
+	test("should append a summary line to the message and the stack", async () => {
+		const error = await catchError(new CheckoutPage().pay());
+		const summary = 'Step: CheckoutPage.pay > PaymentForm.fill > CardInput.type ("Type 4111")';
+
+		expect(error?.message).toBe(`Cannot type 4111\n\n${summary}`);
+		expect(error?.stack).toContain(`TypeError: Cannot type 4111\n\n${summary}\n`);
+	});
+
+	test("should add the context of synchronous steps", () => {
+		class Parser {
+			@step("Parse {{text}}", { sync: true })
+			parse(text: string): number {
+				throw new Error(`Cannot parse ${text}`);
+			}
+		}
+
+		let error: unknown;
+		try {
+			new Parser().parse("abc");
+		} catch (caught) {
+			error = caught;
+		}
+
+		expect(getStepErrorContext(error)).toEqual({
+			breadcrumb: ["Parser.parse"],
+			title: "Parse abc",
+			arguments: { text: "abc" },
+		});
+	});
+
+	test("should leave values that are not errors unchanged", async () => {
+		const fail = withStep("Fail", async () => {
+			throw "plain string";
+		});
+
+		await expect(fail()).rejects.toBe("plain string");
+		expect(getStepErrorContext("plain string")).toBeUndefined();
+	});
+
+	test("should not change errors when disabled", async () => {
+		configureSteps({ enrichErrors: false });
+
+		const error = await catchError(new CheckoutPage().pay());
+
+		expect(error?.message).toBe("Cannot type 4111");
+		expect(getStepErrorContext(error)).toBeUndefined();
+	});
+});
+
+test.describe("step metadata", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepConfig();
+	});
+
+	test("should record the class, method, title template, title and masked arguments", async () => {
+		configureSteps({ recordStepMetadata: true });
+		class LoginPage {
+			@step("Log in as {{user}}")
+			async login(user: string, password: string): Promise<void> {
+				void [user, password]; // Suppress unused warning
+			}
+		}
+
+		await new LoginPage().login("alice", "hunter2");
+
+		expect(collectedMetadata).toEqual([
+			{
+				step: "Log in as alice",
+				metadata: {
+					className: "LoginPage",
+					methodName: "login",
+					titleTemplate: "Log in as {{user}}",
+					title: "Log in as alice",
+					arguments: { user: "alice", password: "******" },
+				},
+			},
+		]);
+	});
+
+	test("should record the template of steps without a description and no template for title functions", async () => {
+		configureSteps({ recordStepMetadata: true });
+		class MyTestClass {
+			@step()
+			async plain(): Promise<void> {}
+
+			@step(function (this: MyTestClass, id: number) {
+				return `Open ${id}`;
+			})
+			async open(id: number): Promise<number> {
+				return id;
+			}
+		}
+
+		await new MyTestClass().plain();
+		await new MyTestClass().open(7);
+
+		expect(collectedMetadata.map(({ metadata }) => metadata)).toEqual([
+			{
+				className: "MyTestClass",
+				methodName: "plain",
+				titleTemplate: "{{$class}}.{{$method}}",
+				title: "MyTestClass.plain",
+				arguments: {},
+			},
+			{ className: "MyTestClass", methodName: "open", title: "Open 7", arguments: { id: 7 } },
+		]);
+	});
+
+	test("should record the metadata of wrapped functions, synchronous and skipped steps", async () => {
+		configureSteps({ recordStepMetadata: true });
+		const sum = withStep(
+			"Sum {{a}} and {{b}}",
+			function sum(a: number, b: number) {
+				return a + b;
+			},
+			{ sync: true }
+		);
+		const skipped = withStep("Skipped", async function skipped() {}, { skipIf: () => true });
+
+		expect(sum(1, 2)).toBe(3);
+		await skipped();
+		await delay(0);
+
+		expect(collectedMetadata.map(({ metadata }) => [metadata.className, metadata.methodName, metadata.title])).toEqual([
+			["", "sum", "Sum 1 and 2"],
+			["", "skipped", "Skipped"],
+		]);
+	});
+
+	test("should not record metadata unless enabled", async () => {
+		const run = withStep("Run", async function run() {});
+
+		await run();
+
+		expect(collectedSteps).toEqual(["Run"]);
+		expect(collectedMetadata).toEqual([]);
+	});
+});
+
+test.describe("gherkin steps", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepConfig();
+	});
+
+	class CartSteps {
+		@Given("a cart with {{count}} items")
+		async cartWith(count: number): Promise<void> {
+			await this.addItems(count);
+		}
+
+		@And("{{count}} items added")
+		async addItems(count: number): Promise<void> {
+			void count; // Suppress unused warning
+		}
+
+		@When("I remove {{item}}", { skipIf: (_self, item) => item === "nothing" })
+		async remove(item: string): Promise<void> {
+			void item; // Suppress unused warning
+		}
+
+		@Then("the cart total is {{total}}")
+		async totalIs(total: number): Promise<void> {
+			if (total !== 4) throw new Error(`Expected total ${total}\nbut got 4`);
+		}
+	}
+
+	test("should prefix titles with the keyword", async () => {
+		configureSteps({ titlePrefix: "[UI] ", recordStepMetadata: true });
+		const cart = new CartSteps();
+
+		await cart.cartWith(2);
+		await cart.remove("an apple");
+		await cart.totalIs(4);
+
+		expect(collectedSteps).toEqual([
+			"[UI] Given a cart with 2 items",
+			"[UI] And 2 items added",
+			"[UI] When I remove an apple",
+			"[UI] Then the cart total is 4",
+		]);
+		expect(collectedMetadata.map(({ metadata }) => metadata.keyword)).toEqual(["Given", "And", "When", "Then"]);
+	});
+
+	test("should support the lowercase aliases given, when and and", async () => {
+		class SearchSteps {
+			@given("the search page")
+			async open(): Promise<void> {}
+
+			@when("I search for {{term}}")
+			async search(term: string): Promise<void> {
+				void term; // Suppress unused warning
+			}
+
+			@and("I sort by price")
+			async sort(): Promise<void> {}
+		}
+		const steps = new SearchSteps();
+
+		await steps.open();
+		await steps.search("shoes");
+		await steps.sort();
+
+		expect(collectedSteps).toEqual(["Given the search page", "When I search for shoes", "And I sort by price"]);
+		expect(getScenarioSteps().map(({ keyword }) => keyword)).toEqual(["Given", "When", "And"]);
+	});
+
+	test("should mark any step as a then assertion with the keyword option", async () => {
+		const verify = withStep("the order is confirmed", async function verify() {}, { keyword: "Then" });
+
+		await verify();
+
+		expect(collectedSteps).toEqual(["Then the order is confirmed"]);
+		expect(getScenarioSteps()).toEqual([
+			{ keyword: "Then", title: "Then the order is confirmed", depth: 0, status: "passed" },
+		]);
+	});
+
+	test("should record the steps of the test with their nesting and status", async () => {
+		const cart = new CartSteps();
+
+		await cart.cartWith(2);
+		await cart.remove("nothing");
+		await expect(cart.totalIs(5)).rejects.toThrow("Expected total 5");
+		await withStep("plain", async function plain() {})();
+
+		expect(getScenarioSteps()).toEqual([
+			{ keyword: "Given", title: "Given a cart with 2 items", depth: 0, status: "passed" },
+			{ keyword: "And", title: "And 2 items added", depth: 1, status: "passed" },
+			{ keyword: "When", title: "When I remove nothing", depth: 0, status: "skipped" },
+			{ keyword: "Then", title: "Then the cart total is 5", depth: 0, status: "failed", error: "Expected total 5" },
+		]);
+	});
+
+	test("should record steps skipped from their body as skipped", async () => {
+		class ShippingSteps {
+			@When("I choose express shipping")
+			async chooseExpress(): Promise<void> {
+				getStepInfo(this).skip(true, "Express shipping is not offered");
+			}
+		}
+
+		await new ShippingSteps().chooseExpress();
+
+		expect(getScenarioSteps()).toEqual([
+			{ keyword: "When", title: "When I choose express shipping", depth: 0, status: "skipped" },
+		]);
+	});
+
+	test("should record synchronous steps", () => {
+		const check = withStep(
+			"the value is {{value}}",
+			function check(value: number) {
+				if (value < 0) throw new Error("negative");
+				return value;
+			},
+			{ keyword: "Then", sync: true }
+		);
+
+		check(1);
+		expect(() => check(-1)).toThrow("negative");
+
+		expect(getScenarioSteps().map(({ title, status }) => [title, status])).toEqual([
+			["Then the value is 1", "passed"],
+			["Then the value is -1", "failed"],
+		]);
+	});
+
+	test("should attach the steps as a scenario", async () => {
+		const cart = new CartSteps();
+		await cart.cartWith(2);
+		await cart.remove("nothing");
+		await expect(cart.totalIs(5)).rejects.toThrow();
+
+		await attachScenario();
+
+		const attachment = test.info().attachments.find(({ name }) => name === SCENARIO_ATTACHMENT);
+		expect(attachment?.contentType).toBe("text/plain");
+		expect(attachment?.body?.toString()).toBe(
+			[
+				"Feature: gherkin steps",
+				"  Scenario: should attach the steps as a scenario",
+				"    Given a cart with 2 items",
+				"      And 2 items added",
+				"    When I remove nothing # skipped",
+				"    Then the cart total is 5 # failed: Expected total 5",
+				"",
+			].join("\n")
+		);
+	});
+
+	test("should not attach a scenario without gherkin steps", async () => {
+		await attachScenario();
+
+		expect(test.info().attachments.map(({ name }) => name)).not.toContain(SCENARIO_ATTACHMENT);
+	});
+
+	test("should format tests outside describe blocks as a bare scenario", () => {
+		const scenario = formatScenario({ title: "checks out", titlePath: ["checkout.spec.ts", "checks out"] }, [
+			{ keyword: "Given", title: "Given a cart", depth: 0, status: "passed" },
+		]);
+
+		expect(scenario).toBe("Scenario: checks out\n  Given a cart\n");
+	});
+});
+
+test.describe("step tags and requirements", () => {
+	mockStepRunner();
+
+	test.afterEach(() => {
+		resetStepConfig();
+	});
+
+	class CheckoutPage {
+		@step("Submit order", { tags: ["@checkout"], requirements: ["REQ-142", "REQ-7"] })
+		async submit(): Promise<void> {}
+
+		@step("Cancel order", { requirements: ["REQ-142"] })
+		async cancel(): Promise<void> {}
+	}
+
+	test("should record the tags and requirements in the step metadata", async () => {
+		configureSteps({ recordStepMetadata: true });
+		await new CheckoutPage().submit();
+
+		expect(collectedMetadata.map(({ metadata }) => metadata)).toEqual([
+			expect.objectContaining({ title: "Submit order", tags: ["@checkout"], requirements: ["REQ-142", "REQ-7"] }),
+		]);
+	});
+
+	test("should add each tag and requirement to the test annotations once", async () => {
+		const page = new CheckoutPage();
+
+		await page.submit();
+		await page.cancel();
+		await page.submit();
+
+		expect(test.info().annotations).toEqual([
+			{ type: "tag", description: "@checkout" },
+			{ type: "requirement", description: "REQ-142" },
+			{ type: "requirement", description: "REQ-7" },
+		]);
+	});
+
+	test("should add annotations when step metadata is not recorded", async () => {
+		const verify = withStep("Verify total", function verify() {}, { sync: true, requirements: ["REQ-9"] });
+
+		verify();
+		await delay(0);
+
+		expect(collectedMetadata).toEqual([]);
+		expect(test.info().annotations).toEqual([{ type: "requirement", description: "REQ-9" }]);
+	});
+});
@@ -0,0 +1,365 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { expect, test } from "@playwright/test";
+import type { FullConfig, TestCase, TestResult, TestStep } from "@playwright/test/reporter";
+
+import {
+	buildTraceabilityReport,
+	formatStepTreeMarkdown,
+	formatTraceabilityMarkdown,
+	StepTreeReport,
+	StepTreeReporter,
+	StepTreeTest,
+	TraceabilityReport,
+} from "../src/reporter";
+import { STEP_METADATA_ATTACHMENT, StepMetadata } from "../src/step-metadata";
+
+const rootDir = "/repo/tests";
+
+type FakeStep = Partial<Omit<TestStep, "steps">> & { metadata?: StepMetadata; steps?: FakeStep[] };
+
+const toStep = ({ metadata, steps = [], attachments = [], ...step }: FakeStep): TestStep =>
+	({
+		title: metadata?.title ?? "step",
+		category: "test.step",
+		duration: 5,
+		annotations: [],
+		...step,
+		attachments: metadata
+			? [
+					{
+						name: STEP_METADATA_ATTACHMENT,
+						contentType: "application/json",
+						body: Buffer.from(JSON.stringify(metadata)),
+					},
+					...attachments,
+				]
+			: attachments,
+		steps: steps.map(toStep),
+	}) as unknown as TestStep;
+
+const fakeTest = (title: string, line: number, project = "chromium") =>
+	({
+		title,
+		titlePath: () => ["", project, "login.spec.ts", "Login", title],
+		location: { file: join(rootDir, "login.spec.ts"), line, column: 1 },
+	}) as unknown as TestCase;
+
+const fakeResult = (steps: FakeStep[], result: Partial<TestResult> = {}) =>
+	({ status: "passed", duration: 100, retry: 0, ...result, steps: steps.map(toStep) }) as unknown as TestResult;
+
+const loginMetadata: StepMetadata = {
+	className: "LoginPage",
+	methodName: "login",
+	titleTemplate: "Log in as {{user}}",
+	title: "Log in as alice",
+	arguments: { user: "alice", password: "******" },
+};
+
+const fillMetadata: StepMetadata = {
+	className: "LoginForm",
+	methodName: "fill",
+	titleTemplate: "Fill {{field}}",
+	title: "Fill username",
+	arguments: { field: "username" },
+};
+
+const runReporter = async (reporter: StepTreeReporter, tests: Array<[TestCase, TestResult]>) => {
+	reporter.onBegin({ rootDir, configFile: join(test.info().outputPath(), "playwright.config.ts") } as FullConfig);
+	for (const [testCase, result] of tests) {
+		reporter.onTestEnd(testCase, result);
+	}
+	await reporter.onEnd();
+};
+
+const readReport = () =>
+	JSON.parse(readFileSync(test.info().outputPath("step-report", "steps.json"), "utf8")) as StepTreeReport;
+
+test.describe("StepTreeReporter", () => {
+	test("should write the tree of decorated steps, leaving out other steps", async () => {
+		await runReporter(new StepTreeReporter(), [
+			[
+				fakeTest("logs in", 3),
+				fakeResult([
+					{ title: "Before Hooks", category: "hook", steps: [{ title: "page.goto", category: "pw:api" }] },
+					{
+						metadata: loginMetadata,
+						duration: 42,
+						location: { file: join(rootDir, "pages", "login-page.ts"), line: 12, column: 3 },
+						attachments: [{ name: "step-values", contentType: "application/json", body: Buffer.from("{}") }],
+						steps: [
+							{ title: "plain step", steps: [{ metadata: fillMetadata }] },
+							{ title: "expect.toBeVisible", category: "expect" },
+						],
+					},
+				]),
+			],
+		]);
+
+		expect(readReport()).toEqual({
+			tests: [
+				{
+					title: "logs in",
+					titlePath: ["Login", "logs in"],
+					project: "chromium",
+					file: "login.spec.ts",
+					line: 3,
+					status: "passed",
+					duration: 100,
+					retry: 0,
+					steps: [
+						{
+							...loginMetadata,
+							status: "passed",
+							duration: 42,
+							location: { file: "pages/login-page.ts", line: 12, column: 3 },
+							attachments: [{ name: "step-values", contentType: "application/json" }],
+							steps: [{ ...fillMetadata, status: "passed", duration: 5, attachments: [], steps: [] }],
+						},
+					],
+				},
+			],
+		});
+	});
+
+	test("should record failed and skipped steps", async () => {
+		await runReporter(new StepTreeReporter(), [
+			[
+				fakeTest("fails", 8),
+				fakeResult(
+					[
+						{ metadata: fillMetadata, annotations: [{ type: "skip" }] },
+						{ metadata: loginMetadata, error: { message: "\u001b[31mTimeout\u001b[39m\n\nStep: LoginPage.login" } },
+					],
+					{ status: "failed" }
+				),
+			],
+		]);
+
+		const [{ status, steps }] = readReport().tests;
+		expect(status).toBe("failed");
+		expect(steps.map(({ title, status, error }) => ({ title, status, error }))).toEqual([
+			{ title: "Fill username", status: "skipped", error: undefined },
+			{ title: "Log in as alice", status: "failed", error: "Timeout" },
+		]);
+	});
+
+	test("should sort tests by file, line, project and retry", async () => {
+		await runReporter(new StepTreeReporter(), [
+			[fakeTest("second", 20), fakeResult([])],
+			[fakeTest("first", 3, "webkit"), fakeResult([], { retry: 1 })],
+			[fakeTest("first", 3, "webkit"), fakeResult([])],
+			[fakeTest("first", 3), fakeResult([])],
+		]);
+
+		expect(readReport().tests.map(({ title, project, retry }) => [title, project, retry])).toEqual([
+			["first", "chromium", 0],
+			["first", "webkit", 0],
+			["first", "webkit", 1],
+			["second", "chromium", 0],
+		]);
+	});
+
+	test("should write the Markdown report next to the JSON report", async () => {
+		await runReporter(new StepTreeReporter({ json: false }), [
+			[fakeTest("logs in", 3), fakeResult([{ metadata: loginMetadata, steps: [{ metadata: fillMetadata }] }])],
+		]);
+
+		const markdown = readFileSync(test.info().outputPath("step-report", "steps.md"), "utf8");
+		expect(markdown).toContain("## login.spec.ts › Login › logs in\n\nProject: chromium · Status: passed");
+		expect(markdown).toContain(
+			[
+				"- **Log in as alice** `LoginPage.login` · passed · 5 ms",
+				'  - Arguments: `{"user":"alice","password":"******"}`',
+				"  - **Fill username** `LoginForm.fill` · passed · 5 ms",
+				'    - Arguments: `{"field":"username"}`',
+			].join("\n")
+		);
+		expect(() => readFileSync(test.info().outputPath("step-report", "steps.json"))).toThrow();
+	});
+});
+
+test.describe("formatStepTreeMarkdown", () => {
+	test("should note tests without decorated steps and retries", () => {
+		const markdown = formatStepTreeMarkdown({
+			tests: [
+				{
+					title: "logs in",
+					titlePath: ["logs in"],
+					project: "",
+					file: "login.spec.ts",
+					line: 3,
+					status: "failed",
+					duration: 10,
+					retry: 2,
+					steps: [],
+				},
+			],
+		});
+
+		expect(markdown).toBe(
+			"# Decorated Steps\n\n## login.spec.ts › logs in (retry 2)\n\nStatus: failed · Duration: 10 ms\n\nNo decorated steps.\n"
+		);
+	});
+
+	test("should escape Markdown in titles", () => {
+		const markdown = formatStepTreeMarkdown({
+			tests: [
+				{
+					title: "t",
+					titlePath: ["t"],
+					project: "",
+					file: "a.spec.ts",
+					line: 1,
+					status: "passed",
+					duration: 1,
+					retry: 0,
+					steps: [
+						{
+							...fillMetadata,
+							title: "Type *bold* <b>",
+							arguments: {},
+							status: "passed",
+							duration: 1,
+							attachments: [],
+							steps: [],
+						},
+					],
+				},
+			],
+		});
+
+		expect(markdown).toContain("- **Type \\*bold\\* \\<b\\>** `LoginForm.fill` · passed · 1 ms\n");
+	});
+});
+
+test.describe("requirement coverage", () => {
+	const submitMetadata: StepMetadata = {
+		className: "CheckoutPage",
+		methodName: "submit",
+		title: "Submit order",
+		arguments: {},
+		tags: ["@checkout"],
+		requirements: ["REQ-142"],
+	};
+
+	const stepNode = (metadata: StepMetadata, status: "passed" | "failed" | "skipped" = "passed") => ({
+		...metadata,
+		status,
+		duration: 1,
+		attachments: [],
+		steps: [],
+	});
+
+	const treeTest = (title: string, steps: StepTreeTest["steps"], result: Partial<StepTreeTest> = {}): StepTreeTest => ({
+		title,
+		titlePath: ["Checkout", title],
+		project: "chromium",
+		file: "checkout.spec.ts",
+		line: 1,
+		status: "passed",
+		duration: 10,
+		retry: 0,
+		steps,
+		...result,
+	});
+
+	test("should map each requirement to the tests and steps that verified it", () => {
+		const report = buildTraceabilityReport([
+			treeTest("pays", [
+				{ ...stepNode(loginMetadata), steps: [stepNode({ ...fillMetadata, requirements: ["REQ-7"] })] },
+				stepNode(submitMetadata),
+			]),
+			treeTest("pays again", [stepNode({ ...submitMetadata, requirements: ["REQ-142", "REQ-10"] }, "failed")], {
+				line: 9,
+				status: "failed",
+			}),
+			treeTest("logs in", [stepNode(loginMetadata)]),
+		]);
+
+		expect(report.requirements.map(({ requirement, status }) => [requirement, status])).toEqual([
+			["REQ-7", "passed"],
+			["REQ-10", "failed"],
+			["REQ-142", "failed"],
+		]);
+		expect(report.requirements[2].tests).toEqual([
+			{
+				title: "pays",
+				titlePath: ["Checkout", "pays"],
+				project: "chromium",
+				file: "checkout.spec.ts",
+				line: 1,
+				status: "passed",
+				steps: [{ title: "Submit order", className: "CheckoutPage", methodName: "submit", status: "passed" }],
+			},
+			{
+				title: "pays again",
+				titlePath: ["Checkout", "pays again"],
+				project: "chromium",
+				file: "checkout.spec.ts",
+				line: 9,
+				status: "failed",
+				steps: [{ title: "Submit order", className: "CheckoutPage", methodName: "submit", status: "failed" }],
+			},
+		]);
+	});
+
+	test("should only use the last run of a retried test", () => {
+		const report = buildTraceabilityReport([
+			treeTest("pays", [stepNode(submitMetadata, "failed")], { status: "failed" }),
+			treeTest("pays", [stepNode(submitMetadata)], { retry: 1 }),
+		]);
+
+		expect(report.requirements).toEqual([
+			expect.objectContaining({
+				requirement: "REQ-142",
+				status: "passed",
+				tests: [expect.objectContaining({ status: "passed" })],
+			}),
+		]);
+	});
+
+	test("should mark requirements of skipped steps only as skipped", () => {
+		const report = buildTraceabilityReport([treeTest("pays", [stepNode(submitMetadata, "skipped")])]);
+
+		expect(report.requirements[0].status).toBe("skipped");
+	});
+
+	test("should format the coverage as Markdown", () => {
+		const report: TraceabilityReport = buildTraceabilityReport([treeTest("pays", [stepNode(submitMetadata)])]);
+
+		expect(formatTraceabilityMarkdown(report)).toBe(
+			[
+				"# Requirement Coverage",
+				"",
+				"| Requirement | Status | Tests | Steps |",
+				"| --- | --- | --- | --- |",
+				"| REQ-142 | passed | 1 | 1 |",
+				"",
+				"## REQ-142",
+				"",
+				"Status: passed",
+				"",
+				"- checkout.spec.ts › Checkout › pays (chromium) · passed",
+				"  - **Submit order** `CheckoutPage.submit` · passed",
+				"",
+			].join("\n")
+		);
+	});
+
+	test("should write the coverage files only if steps have requirements", async () => {
+		await runReporter(new StepTreeReporter(), [[fakeTest("logs in", 3), fakeResult([{ metadata: loginMetadata }])]]);
+		expect(() => readFileSync(test.info().outputPath("step-report", "requirements.json"))).toThrow();
+
+		await runReporter(new StepTreeReporter(), [[fakeTest("pays", 3), fakeResult([{ metadata: submitMetadata }])]]);
+		const report = JSON.parse(
+			readFileSync(test.info().outputPath("step-report", "requirements.json"), "utf8")
+		) as TraceabilityReport;
+		expect(report.requirements.map(({ requirement }) => requirement)).toEqual(["REQ-142"]);
+		expect(readFileSync(test.info().outputPath("step-report", "requirements.md"), "utf8")).toContain("## REQ-142");
+		expect(readFileSync(test.info().outputPath("step-report", "steps.md"), "utf8")).toContain(
+			"  - Tags: @checkout\n  - Requirements: REQ-142\n"
+		);
+	});
+});
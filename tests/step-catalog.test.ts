@@ -0,0 +1,271 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, relative } from "node:path";
+
+import { expect, test } from "@playwright/test";
+
+import { formatCatalogMarkdown, runCatalogCommand, scanSource, StepCatalog } from "../src/step-catalog";
+
+const loginPage = `
+import { step, Then } from "@cerios/playwright-step-decorator";
+
+export class LoginPage {
+	@step("Log in as {{user.name}}")
+	async login(user: { name: string }, password: string): Promise<void> {}
+
+	@step("Fill {{field}} with [[1]]")
+	async fill(this: LoginPage, name: string, value: string): Promise<void> {}
+
+	@Then("the {{ message }} is shown", { box: true })
+	async messageShown({ message, level = "info" }: Notification, ...rest: string[]): Promise<void> {}
+
+	@step(function (this: LoginPage) { return "Open"; })
+	async open(): Promise<void> {}
+
+	async logout(): Promise<void> {}
+
+	private async reset(): Promise<void> {}
+
+	getTitle(): string {
+		return "";
+	}
+}
+`;
+
+/**
+ * Writes a source file below the output directory of the test and returns its path relative to the working directory.
+ */
+const writeSource = (name: string, source: string) => {
+	const file = test.info().outputPath("src", name);
+	mkdirSync(dirname(file), { recursive: true });
+	writeFileSync(file, source);
+	return relative(process.cwd(), file).replace(/\\/g, "/");
+};
+
+const runCommand = (...args: string[]) => {
+	const output = { stdout: "", stderr: "" };
+	const exitCode = runCatalogCommand(args, {
+		stdout: text => (output.stdout += text),
+		stderr: text => (output.stderr += text),
+	});
+	return { exitCode, ...output };
+};
+
+test.describe("scanSource", () => {
+	test("should list the decorated steps with their description and parameters", () => {
+		const { steps } = scanSource(loginPage, "login-page.ts");
+
+		expect(steps).toEqual([
+			{
+				file: "login-page.ts",
+				line: 5,
+				className: "LoginPage",
+				methodName: "login",
+				decorator: "step",
+				description: "Log in as {{user.name}}",
+				parameters: ["user", "password"],
+			},
+			{
+				file: "login-page.ts",
+				line: 8,
+				className: "LoginPage",
+				methodName: "fill",
+				decorator: "step",
+				description: "Fill {{field}} with [[1]]",
+				parameters: ["name", "value"],
+			},
+			{
+				file: "login-page.ts",
+				line: 11,
+				className: "LoginPage",
+				methodName: "messageShown",
+				decorator: "Then",
+				description: "the {{ message }} is shown",
+				parameters: ['{ message, level = "info" }', "...rest"],
+			},
+			{
+				file: "login-page.ts",
+				line: 14,
+				className: "LoginPage",
+				methodName: "open",
+				decorator: "step",
+				description: undefined,
+				parameters: [],
+			},
+		]);
+	});
+
+	test("should report unknown parameters and undecorated public async methods", () => {
+		const { problems } = scanSource(loginPage, "login-page.ts");
+
+		expect(problems).toEqual([
+			{
+				file: "login-page.ts",
+				line: 8,
+				column: 2,
+				severity: "error",
+				message: "Missing function parameters (field) in method 'LoginPage.fill'.",
+			},
+			{
+				file: "login-page.ts",
+				line: 17,
+				column: 2,
+				severity: "warning",
+				message: "Public async method 'LoginPage.logout' is not decorated with a step decorator.",
+			},
+		]);
+	});
+
+	test("should report out-of-range indices and invalid placeholders", () => {
+		const { problems } = scanSource(
+			`class Cart {
+				@step("Add [[0]] x [[2]]")
+				async add(product: string, quantity = 1) {}
+
+				@softStep("Remove [[3]]")
+				async remove(...products: string[]) {}
+
+				@When("Check {{total | round}}")
+				async check(total: number) {}
+			}`,
+			"cart.ts"
+		);
+
+		expect(problems.map(({ line, message }) => [line, message])).toEqual([
+			[2, "Parameter index '2' is out of bounds in method 'Cart.add', which declares 2 parameter(s)."],
+			[8, expect.stringContaining("round")],
+		]);
+	});
+
+	test("should not report undecorated methods of classes without steps or with @steps", () => {
+		const { steps, problems } = scanSource(
+			`class Api {
+				async get() {}
+			}
+
+			@steps()
+			class Wrapped {
+				@step("Open")
+				async open() {}
+
+				async close() {}
+			}`,
+			"api.ts"
+		);
+
+		expect(steps.map(({ className, methodName }) => `${className}.${methodName}`)).toEqual(["Wrapped.open"]);
+		expect(problems).toEqual([]);
+	});
+
+	test("should recognize the lowercase gherkin aliases", () => {
+		const source = `class CartSteps {
+			@given("a cart")
+			async cart() {}
+
+			@when("I add {{item}}")
+			async add(item: string) {}
+
+			@and("I pay")
+			async pay() {}
+		}`;
+
+		expect(scanSource(source, "cart-steps.ts").steps.map(({ decorator }) => decorator)).toEqual([
+			"given",
+			"when",
+			"and",
+		]);
+	});
+
+	test("should recognize additional decorators", () => {
+		const source = `class Form {
+			@boxedStep("Submit {{form}}")
+			async submit(data: unknown) {}
+		}`;
+
+		expect(scanSource(source, "form.ts").steps).toEqual([]);
+		expect(scanSource(source, "form.ts", { decorators: ["boxedStep"] }).problems).toEqual([
+			expect.objectContaining({ message: "Missing function parameters (form) in method 'Form.submit'." }),
+		]);
+	});
+});
+
+test.describe("formatCatalogMarkdown", () => {
+	test("should render a table of steps per class and the problems", () => {
+		const catalog: StepCatalog = scanSource(loginPage, "login-page.ts");
+
+		expect(formatCatalogMarkdown(catalog)).toBe(
+			[
+				"# Step Catalog",
+				"",
+				"## LoginPage",
+				"",
+				"`login-page.ts`",
+				"",
+				"| Method | Decorator | Description | Parameters | Line |",
+				"| --- | --- | --- | --- | --- |",
+				"| `login` | @step | Log in as {{user.name}} | `user`, `password` | 5 |",
+				"| `fill` | @step | Fill {{field}} with [[1]] | `name`, `value` | 8 |",
+				'| `messageShown` | @Then | the {{ message }} is shown | `{ message, level = "info" }`, `...rest` | 11 |',
+				"| `open` | @step |  |  | 14 |",
+				"",
+				"## Problems",
+				"",
+				"- login-page.ts:8:2 error Missing function parameters (field) in method 'LoginPage.fill'.",
+				"- login-page.ts:17:2 warning Public async method 'LoginPage.logout' is not decorated with a step decorator.",
+				"",
+			].join("\n")
+		);
+	});
+});
+
+test.describe("runCatalogCommand", () => {
+	test("should print the catalog of a directory as JSON", () => {
+		const file = writeSource("pages/login-page.ts", loginPage);
+		writeSource("types.d.ts", loginPage);
+
+		const { exitCode, stdout } = runCommand("scan", dirname(dirname(file)));
+
+		expect(exitCode).toBe(0);
+		const catalog = JSON.parse(stdout) as StepCatalog;
+		expect(catalog.steps).toHaveLength(4);
+		expect(new Set(catalog.steps.map(({ file }) => file))).toEqual(new Set([file]));
+	});
+
+	test("should write the catalog as Markdown to a file", () => {
+		const file = writeSource("login-page.ts", loginPage);
+		const outputFile = test.info().outputPath("catalog.md");
+
+		const { exitCode, stdout } = runCommand("scan", file, "--format", "markdown", "--output", outputFile);
+
+		expect(exitCode).toBe(0);
+		expect(stdout).toBe("");
+		expect(readFileSync(outputFile, "utf8")).toContain("## LoginPage");
+	});
+
+	test("should fail lint on errors, and on warnings in strict mode", () => {
+		const invalid = writeSource("invalid.ts", loginPage);
+		const undecorated = writeSource(
+			"undecorated.ts",
+			`class Menu {
+				@step("Open")
+				async open() {}
+				async close() {}
+			}`
+		);
+
+		const errors = runCommand("lint", invalid);
+		expect(errors.exitCode).toBe(1);
+		expect(errors.stdout).toContain(`${invalid}:8:2 error Missing function parameters (field)`);
+		expect(errors.stdout).toContain("4 step(s) checked: 1 error(s), 1 warning(s).");
+
+		expect(runCommand("lint", undecorated).exitCode).toBe(0);
+		expect(runCommand("lint", undecorated, "--strict").exitCode).toBe(1);
+	});
+
+	test("should reject unknown commands, options and paths", () => {
+		expect(runCommand("check").exitCode).toBe(2);
+		expect(runCommand("scan", "--verbose").exitCode).toBe(2);
+		expect(runCommand("scan", "--format", "yaml").exitCode).toBe(2);
+		expect(runCommand("lint", test.info().outputPath("missing")).stderr).toContain("ENOENT");
+		expect(runCommand("--help")).toEqual({ exitCode: 0, stdout: expect.stringContaining("Usage:"), stderr: "" });
+	});
+});